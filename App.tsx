@@ -1,21 +1,52 @@
 import React, { useState, useCallback, useMemo, useRef, useEffect } from 'react';
-import { GoogleGenAI, Modality, Type, LiveServerMessage, Blob as GenAIBlob } from "@google/genai";
+import { GoogleGenAI, Modality, LiveServerMessage, Blob as GenAIBlob } from "@google/genai";
 
 // Re-importing original components for the Image Edit Studio
 import ImageUploader from './components/ImageUploader';
 import EditorView from './components/EditorView';
-import { editImage as nanoBananaEditImage, generateImage, generateVideo, getChatResponse, analyzeContent, textToSpeech, transcribeAudio } from './services/geminiService';
-import { addHistoryEntry, getHistoryForImage, deleteHistoryEntry, clearHistoryForImage } from './services/historyService';
-import type { EditImageResult, HistoryEntry, ChatMessage, GroundingChunk } from './types';
-import { fileToBase64, blobToBase64, decode, encode, decodeAudioData } from './utils/fileUtils';
-import { STYLE_PRESETS } from './constants/styles';
+import { createReferenceImage } from './components/ReferenceImagesPanel';
+import StyleFilters from './components/StyleFilters';
+import GenerationHistoryPanel from './components/GenerationHistoryPanel';
+import ChatSidebar from './components/ChatSidebar';
+import MarkdownRenderer from './components/MarkdownRenderer';
+import ToolCallSteps from './components/ToolCallSteps';
+import GroundingSources from './components/GroundingSources';
+import ChatExportMenu from './components/ChatExportMenu';
+import LocationPicker from './components/LocationPicker';
+import ComparisonView from './components/ComparisonView';
+import VideoJobsList from './components/VideoJobsList';
+import Storyboard from './components/Storyboard';
+import VideoGallery from './components/VideoGallery';
+import ChatAttachments, { ATTACHMENT_ACCEPT, MAX_ATTACHMENT_BYTES, isSupportedAttachment, createChatAttachment } from './components/ChatAttachments';
+import { editImage as nanoBananaEditImage, generateImage, IMAGE_GENERATION_MODELS, MAX_GENERATED_IMAGES, startVideoGeneration, downloadVideo, VIDEO_MODELS, validateVideoRequest, CHAT_MODES, getChatResponse, continueChatResponse, generateChatTitle, analyzeContent, textToSpeech, transcribeAudio } from './services/geminiService';
+import { addHistoryEntry, getHistoryForImage, deleteHistoryEntry, clearHistoryForImage, getHistoryStorageUsage } from './services/historyService';
+import { exportConversation, importConversation, ChatExportFormat } from './services/chatExportService';
+import { listVideoJobs, saveVideoJob, deleteVideoJob, trackVideoJob, cancelVideoJob, getStoryboard, saveStoryboard } from './services/videoJobService';
+import { getGalleryVideos, addGalleryVideo, deleteGalleryVideo } from './services/videoGalleryService';
+import { getGenerations, addGeneration, deleteGeneration, clearGenerations } from './services/generationHistoryService';
+import {
+    listConversations,
+    getConversation,
+    saveConversation,
+    renameConversation,
+    deleteConversation,
+    createConversationId,
+    fallbackTitle,
+    getActiveConversationId,
+    setActiveConversationId,
+} from './services/conversationService';
+import type { EditImageResult, CanvasPadding, HistoryEntry, HistoryStorageUsage, ReferenceImage, GenerationEntry, ChatAttachment, ChatMessage, ChatMode, ChatOptions, ChatResult, Conversation, ConversationSummary, ComparisonAnswer, GroundingChunk, UserLocation, VideoJob, VideoProgress, VideoRequest, VideoResolution, GalleryVideo, Base64File } from './types';
+import { fileToBase64, blobToBase64, dataUrlToBlob, urlToBase64, hashBlob, imageExtension, formatBytes, getDroppedFiles, getLastVideoFrame, decode, encode, decodeAudioData } from './utils/fileUtils';
+import { createThumbnail, expandCanvas } from './utils/imageUtils';
+import { createZip, ZipEntry } from './utils/zipUtils';
+import { groundingUri, insertCitations } from './utils/citationUtils';
+import { findPreset } from './services/presetService';
 
 
 // --- TYPES ---
 type Studio = 'Chat' | 'Image' | 'Video' | 'Audio' | 'Vision';
-type ImageStudioTab = 'Edit' | 'Generate';
+type ImageStudioTab = 'Edit' | 'Generate' | 'Batch';
 type AudioStudioTab = 'Transcribe' | 'Converse';
-type ChatMode = 'lite' | 'flash' | 'pro' | 'search' | 'maps';
 
 // --- HELPER & UI COMPONENTS ---
 
@@ -60,38 +91,467 @@ const ErrorDisplay: React.FC<{ message: string }> = ({ message }) => (
 
 // --- STUDIO COMPONENTS ---
 
+// Compare mode asks this many chat modes at once.
+const MIN_COMPARED_MODES = 2;
+const MAX_COMPARED_MODES = 3;
+// Quiet period before a changed conversation is saved, so typing doesn't save on every keystroke.
+const CONVERSATION_SAVE_DELAY_MS = 800;
+
 const ChatStudio: React.FC = () => {
     const [messages, setMessages] = useState<ChatMessage[]>([]);
     const [input, setInput] = useState('');
+    // Files attached to the message being written.
+    const [attachments, setAttachments] = useState<ChatAttachment[]>([]);
+    const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+    const attachmentInputRef = useRef<HTMLInputElement>(null);
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [mode, setMode] = useState<ChatMode>('flash');
+    const [systemInstruction, setSystemInstruction] = useState('');
+    const [isInstructionOpen, setIsInstructionOpen] = useState(false);
+    // Shared with Maps answers only once the user opts in; not saved with the conversation.
+    const [location, setLocation] = useState<UserLocation | null>(null);
+    // In compare mode each question goes to several modes; their answers wait in `comparison` until one is picked.
+    const [isComparing, setIsComparing] = useState(false);
+    const [compareModes, setCompareModes] = useState<ChatMode[]>(['lite', 'flash', 'pro']);
+    const [comparison, setComparison] = useState<ComparisonAnswer[] | null>(null);
+    // Running summary of turns that no longer fit the context window.
+    const [summary, setSummary] = useState<ConversationSummary | null>(null);
+    const [conversations, setConversations] = useState<Conversation[]>([]);
+    // The open conversation; null until its first message is sent.
+    const [conversationId, setConversationId] = useState<string | null>(null);
+    const [title, setTitle] = useState('');
+    const [createdAt, setCreatedAt] = useState(0);
     const messagesEndRef = useRef<HTMLDivElement>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
+    const conversationIdRef = useRef<string | null>(null);
+    // Last version written to storage, so merely opening a chat doesn't bump its timestamp.
+    const savedRef = useRef<Conversation | null>(null);
+    // Change still waiting out the save delay; written straight away when leaving the chat.
+    const pendingSaveRef = useRef<Conversation | null>(null);
+
+    // Latest state of the open conversation, so it can be saved when the studio is closed.
+    const conversationRef = useRef<Conversation | null>(null);
+    conversationRef.current = conversationId && messages.length > 0
+        ? { id: conversationId, title, mode, systemInstruction, summary, messages, createdAt, updatedAt: Date.now() }
+        : null;
+
+    useEffect(() => () => leaveConversation(), []);
+
+    const loadConversation = (conversation: Conversation) => {
+        leaveConversation();
+        savedRef.current = conversation;
+        conversationIdRef.current = conversation.id;
+        setConversationId(conversation.id);
+        setTitle(conversation.title);
+        setCreatedAt(conversation.createdAt);
+        setMessages(conversation.messages);
+        setMode(conversation.mode);
+        setSystemInstruction(conversation.systemInstruction);
+        setSummary(conversation.summary);
+        setComparison(null);
+        setError(null);
+        setActiveConversationId(conversation.id);
+    };
+
+    useEffect(() => {
+        listConversations()
+            .then(list => {
+                setConversations(list);
+                const active = list.find(c => c.id === getActiveConversationId());
+                if (active) loadConversation(active);
+            })
+            .catch(err => console.error("Failed to load conversations", err));
+    }, []);
+
+    const persistConversation = async (conversation: Conversation) => {
+        try {
+            await saveConversation(conversation);
+            savedRef.current = conversation;
+            setConversations(prev => [conversation, ...prev.filter(c => c.id !== conversation.id)]);
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+            setError(`Failed to save conversation: ${errorMessage}`);
+        }
+    };
+
+    const flushPendingSave = () => {
+        const pending = pendingSaveRef.current;
+        pendingSaveRef.current = null;
+        if (pending) persistConversation(pending);
+    };
+
+    // Saves the open conversation before switching away from it. A reply still streaming is
+    // stopped and kept as far as it got, marked as cut off so it can be continued later.
+    const leaveConversation = () => {
+        const controller = abortControllerRef.current;
+        if (!controller) {
+            flushPendingSave();
+            return;
+        }
+        abortControllerRef.current = null;
+        controller.abort();
+        pendingSaveRef.current = null;
+        const conversation = conversationRef.current;
+        if (!conversation) return;
+        const last = conversation.messages[conversation.messages.length - 1];
+        const messages = last.role !== 'model'
+            ? conversation.messages
+            : last.text
+                ? [...conversation.messages.slice(0, -1), { ...last, truncated: true }]
+                : conversation.messages.slice(0, -1);
+        persistConversation({ ...conversation, messages, updatedAt: Date.now() });
+    };
+
+    // Save once the conversation stops changing, except mid-stream; the finished reply is saved in one go.
+    useEffect(() => {
+        pendingSaveRef.current = null;
+        if (!conversationId || isLoading || messages.length === 0) return;
+        const saved = savedRef.current;
+        if (saved && saved.id === conversationId && saved.messages === messages && saved.title === title
+            && saved.mode === mode && saved.systemInstruction === systemInstruction && saved.summary === summary) {
+            return;
+        }
+        const conversation: Conversation = { id: conversationId, title, mode, systemInstruction, summary, messages, createdAt, updatedAt: Date.now() };
+        pendingSaveRef.current = conversation;
+        const timer = setTimeout(flushPendingSave, CONVERSATION_SAVE_DELAY_MS);
+        return () => clearTimeout(timer);
+    }, [conversationId, title, mode, systemInstruction, summary, messages, createdAt, isLoading]);
 
     const scrollToBottom = () => {
         messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
     };
 
-    useEffect(scrollToBottom, [messages, isLoading]);
+    useEffect(scrollToBottom, [messages, comparison, isLoading]);
 
-    const handleSend = async () => {
-        if (!input.trim()) return;
-        const userMessage: ChatMessage = { role: 'user', text: input };
-        setMessages(prev => [...prev, userMessage]);
-        setInput('');
+    // Streams a reply into messages[index]. `prefix` is the text already there when continuing an answer.
+    const streamReply = async (index: number, prefix: string, request: (options: ChatOptions) => Promise<ChatResult>): Promise<string> => {
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
         setIsLoading(true);
         setError(null);
+        let latestText = prefix;
+        // Calls made before a continuation stay listed above the new ones.
+        const earlierToolCalls = messages[index]?.toolCalls ?? [];
+        const updateReply = (patch: Partial<ChatMessage>) =>
+            setMessages(prev => prev.map((m, i) => (i === index ? { ...m, ...patch } : m)));
+        // A reply that never produced text is dropped rather than left as an empty bubble.
+        const dropIfEmpty = () => {
+            if (!latestText) setMessages(prev => prev.filter((_, i) => i !== index));
+        };
 
         try {
-            const result = await getChatResponse(input, mode);
-            const aiMessage: ChatMessage = { role: 'model', text: result.text, groundingChunks: result.groundingChunks };
-            setMessages(prev => [...prev, aiMessage]);
+            const result = await request({
+                systemInstruction,
+                summary,
+                location,
+                signal: controller.signal,
+                onText: text => {
+                    latestText = prefix + text;
+                    updateReply({ text: latestText });
+                },
+                onToolCalls: toolCalls => updateReply({ toolCalls: [...earlierToolCalls, ...toolCalls] }),
+            });
+            // The conversation was replaced (e.g. New Chat) while this reply was streaming.
+            if (abortControllerRef.current !== controller) return '';
+            latestText = prefix + result.text;
+            setMessages(prev => prev.map((m, i) => {
+                if (i !== index) return m;
+                // A continuation's sources join the earlier ones, so its citation numbers are remapped.
+                const sources = [...(m.groundingChunks ?? [])];
+                const positions = result.groundingChunks.map(chunk => {
+                    const existing = sources.findIndex(c => groundingUri(c) === groundingUri(chunk));
+                    return existing >= 0 ? existing : sources.push(chunk) - 1;
+                });
+                const citations = [
+                    ...(m.citations ?? []),
+                    ...result.citations.map(c => ({ index: prefix.length + c.index, sources: c.sources.map(s => positions[s]) })),
+                ];
+                const toolCalls = [...earlierToolCalls, ...result.toolCalls];
+                const searchEntryPoint = result.searchEntryPoint ?? m.searchEntryPoint;
+                return {
+                    ...m,
+                    text: latestText,
+                    groundingChunks: sources,
+                    truncated: result.truncated,
+                    ...(citations.length > 0 && { citations }),
+                    ...(searchEntryPoint && { searchEntryPoint }),
+                    ...(toolCalls.length > 0 && { toolCalls }),
+                };
+            }));
+            setSummary(result.summary);
+            dropIfEmpty();
         } catch (err) {
+            if (abortControllerRef.current !== controller) return '';
             const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
             setError(`Failed to get chat response: ${errorMessage}`);
+            // Keep whatever arrived so it can still be continued.
+            updateReply({ truncated: true });
+            dropIfEmpty();
         } finally {
+            if (abortControllerRef.current === controller) abortControllerRef.current = null;
             setIsLoading(false);
         }
+        return latestText;
+    };
+
+    // Replaces the fallback title with a generated one after the first exchange.
+    const generateTitle = (chatId: string, currentTitle: string, userText: string, reply: string) => {
+        generateChatTitle(userText, reply)
+            .then(generated => {
+                // Keep a title the user has already changed.
+                if (conversationIdRef.current === chatId) {
+                    setTitle(prev => (prev === currentTitle ? generated : prev));
+                }
+            })
+            .catch(err => console.warn("Failed to generate a chat title", err));
+    };
+
+    // Starts the conversation on its first message and saves the question right away,
+    // so it survives leaving the studio mid-reply.
+    const saveQuestion = (conversation: ChatMessage[]): { id: string; currentTitle: string } => {
+        let id = conversationId;
+        let currentTitle = title;
+        let started = createdAt;
+        if (!id) {
+            id = createConversationId();
+            const question = conversation[conversation.length - 1];
+            currentTitle = fallbackTitle(question.text || question.attachments?.[0].name || '');
+            started = Date.now();
+            conversationIdRef.current = id;
+            setConversationId(id);
+            setTitle(currentTitle);
+            setCreatedAt(started);
+            setActiveConversationId(id);
+        }
+        persistConversation({ id, title: currentTitle, mode, systemInstruction, summary, messages: conversation, createdAt: started, updatedAt: Date.now() });
+        return { id, currentTitle };
+    };
+
+    // Asks every mode in compareModes at once, timing each answer from the moment the question was sent.
+    const runComparison = async (conversation: ChatMessage[]) => {
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+        setIsLoading(true);
+        setError(null);
+        // Columns follow the order of the mode menu, whatever order the modes were picked in.
+        const modes = CHAT_MODES.filter(m => compareModes.includes(m));
+        setComparison(modes.map(answerMode => ({ mode: answerMode, text: '', result: null, error: null, firstTokenMs: null, totalMs: null })));
+        const updateAnswer = (index: number, patch: Partial<ComparisonAnswer>) =>
+            setComparison(prev => prev && prev.map((a, i) => (i === index ? { ...a, ...patch } : a)));
+        const started = performance.now();
+
+        await Promise.all(modes.map(async (answerMode, index) => {
+            let firstTokenMs: number | null = null;
+            try {
+                const result = await getChatResponse(conversation, answerMode, {
+                    systemInstruction,
+                    summary,
+                    location,
+                    signal: controller.signal,
+                    onText: text => {
+                        firstTokenMs ??= performance.now() - started;
+                        updateAnswer(index, { text, firstTokenMs });
+                    },
+                });
+                if (abortControllerRef.current !== controller) return;
+                updateAnswer(index, { result, totalMs: performance.now() - started });
+            } catch (err) {
+                if (abortControllerRef.current !== controller) return;
+                const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+                updateAnswer(index, { error: errorMessage, totalMs: performance.now() - started });
+            }
+        }));
+        if (abortControllerRef.current === controller) {
+            abortControllerRef.current = null;
+            setIsLoading(false);
+        }
+    };
+
+    const handleSend = async () => {
+        if ((!input.trim() && attachments.length === 0) || isLoading || comparison) return;
+        const userMessage: ChatMessage = { role: 'user', text: input, ...(attachments.length > 0 && { attachments }) };
+        const conversation = [...messages, userMessage];
+        setInput('');
+        setAttachments([]);
+        const { id, currentTitle } = saveQuestion(conversation);
+
+        if (isComparing) {
+            setMessages(conversation);
+            await runComparison(conversation);
+            return;
+        }
+        setMessages([...conversation, { role: 'model', text: '' }]);
+        const reply = await streamReply(conversation.length, '', options => getChatResponse(conversation, mode, options));
+        if (messages.length === 0 && reply) {
+            generateTitle(id, currentTitle, userMessage.text, reply);
+        }
+    };
+
+    // Keeps one compared answer as the reply and switches to the mode that wrote it.
+    const handlePickAnswer = (index: number) => {
+        const answer = comparison?.[index];
+        const result = answer?.result;
+        if (!answer || !result) return;
+        const reply: ChatMessage = {
+            role: 'model',
+            text: result.text,
+            groundingChunks: result.groundingChunks,
+            truncated: result.truncated,
+            ...(result.citations.length > 0 && { citations: result.citations }),
+            ...(result.searchEntryPoint && { searchEntryPoint: result.searchEntryPoint }),
+            ...(result.toolCalls.length > 0 && { toolCalls: result.toolCalls }),
+        };
+        setMessages(prev => [...prev, reply]);
+        setMode(answer.mode);
+        setSummary(result.summary);
+        setComparison(null);
+        setIsComparing(false);
+        if (messages.length === 1 && conversationId) {
+            generateTitle(conversationId, title, messages[0].text, result.text);
+        }
+    };
+
+    // Drops the answers and puts the question back in the input box.
+    const handleDiscardComparison = () => {
+        abortControllerRef.current?.abort();
+        abortControllerRef.current = null;
+        setIsLoading(false);
+        setComparison(null);
+        const question = messages[messages.length - 1];
+        if (question?.role === 'user') {
+            setMessages(prev => prev.slice(0, -1));
+            setInput(question.text);
+            setAttachments(question.attachments ?? []);
+        }
+    };
+
+    const toggleCompareMode = (toggled: ChatMode) => {
+        setCompareModes(prev => {
+            if (prev.includes(toggled)) return prev.length > MIN_COMPARED_MODES ? prev.filter(m => m !== toggled) : prev;
+            return prev.length < MAX_COMPARED_MODES ? [...prev, toggled] : prev;
+        });
+    };
+
+    const handleAddAttachments = async (files: File[]) => {
+        const unsupported = files.filter(f => !isSupportedAttachment(f));
+        const supported = files.filter(isSupportedAttachment);
+        const totalBytes = [...attachments, ...supported].reduce((total, f) => total + f.size, 0);
+        if (totalBytes > MAX_ATTACHMENT_BYTES) {
+            setError(`Attachments can total at most ${formatBytes(MAX_ATTACHMENT_BYTES)} per message.`);
+            return;
+        }
+        setError(unsupported.length > 0
+            ? `Only images, PDFs and text files can be attached. Skipped: ${unsupported.map(f => f.name).join(', ')}`
+            : null);
+        try {
+            const added = await Promise.all(supported.map(createChatAttachment));
+            setAttachments(prev => [...prev, ...added]);
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+            setError(`Failed to read attachment: ${errorMessage}`);
+        }
+    };
+
+    const handleAttachmentInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = e.target.files ? Array.from<File>(e.target.files) : [];
+        e.target.value = '';
+        if (files.length > 0) handleAddAttachments(files);
+    };
+
+    const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+        e.preventDefault();
+        setIsDraggingFiles(false);
+        const files = Array.from<File>(e.dataTransfer.files);
+        if (files.length > 0) handleAddAttachments(files);
+    };
+
+    const handleStop = () => {
+        abortControllerRef.current?.abort();
+    };
+
+    const handleContinue = async (index: number) => {
+        const conversation = messages.slice(0, index + 1);
+        setMessages(prev => prev.map((m, i) => (i === index ? { ...m, truncated: false } : m)));
+        await streamReply(index, messages[index].text, options => continueChatResponse(conversation, mode, options));
+    };
+
+    const handleNewChat = () => {
+        leaveConversation();
+        savedRef.current = null;
+        conversationIdRef.current = null;
+        setConversationId(null);
+        setTitle('');
+        setMessages([]);
+        setSummary(null);
+        setComparison(null);
+        setSystemInstruction('');
+        setError(null);
+        setActiveConversationId(null);
+    };
+
+    const handleExport = (format: ChatExportFormat) => {
+        const { blob, fileName } = exportConversation({
+            id: conversationId ?? createConversationId(),
+            title, mode, systemInstruction, summary, messages,
+            createdAt: createdAt || Date.now(),
+            updatedAt: Date.now(),
+        }, format);
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.download = fileName;
+        link.href = url;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+    };
+
+    // An imported chat is saved as a new conversation and opened, ready to continue.
+    const handleImport = async (file: File) => {
+        try {
+            const conversation = importConversation(await file.text());
+            await saveConversation(conversation);
+            setConversations(prev => [conversation, ...prev]);
+            loadConversation(conversation);
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+            setError(`Failed to import conversation: ${errorMessage}`);
+        }
+    };
+
+    const handleSelectConversation = async (id: string) => {
+        if (id === conversationId) return;
+        try {
+            const conversation = await getConversation(id);
+            if (conversation) loadConversation(conversation);
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+            setError(`Failed to open conversation: ${errorMessage}`);
+        }
+    };
+
+    const handleRenameConversation = async (id: string, newTitle: string) => {
+        if (id === conversationId) {
+            setTitle(newTitle);
+            return;
+        }
+        try {
+            await renameConversation(id, newTitle);
+            setConversations(prev => prev.map(c => (c.id === id ? { ...c, title: newTitle } : c)));
+        } catch (err) {
+            console.error("Failed to rename conversation", err);
+        }
+    };
+
+    const handleDeleteConversation = async (id: string) => {
+        if (id === conversationId) handleNewChat();
+        setConversations(prev => prev.filter(c => c.id !== id));
+        try {
+            await deleteConversation(id);
+        } catch (err) {
+            console.error("Failed to delete conversation", err);
+        }
     };
     
     const handlePlayTTS = async (text: string) => {
@@ -117,92 +577,279 @@ const ChatStudio: React.FC = () => {
       search: { name: 'Web Search', model: 'gemini-2.5-flash' },
       maps: { name: 'Maps Search', model: 'gemini-2.5-flash' },
     };
+    const modeNames = Object.fromEntries(Object.entries(modeConfig).map(([key, value]) => [key, value.name])) as Record<ChatMode, string>;
+    const needsLocation = isComparing ? compareModes.includes('maps') : mode === 'maps';
 
     return (
-        <div className="max-w-4xl mx-auto bg-gray-800/50 rounded-xl shadow-lg p-4 flex flex-col h-[calc(100vh-200px)]">
-            <div className="flex items-center justify-between mb-4 border-b border-gray-700 pb-3">
-                <h2 className="text-xl font-semibold text-purple-300">Chat Studio</h2>
-                <select value={mode} onChange={e => setMode(e.target.value as ChatMode)} className="bg-gray-700 border border-gray-600 rounded-md p-2 text-white focus:ring-purple-500 focus:border-purple-500">
-                    {Object.entries(modeConfig).map(([key, value]) => <option key={key} value={key}>{value.name}</option>)}
-                </select>
-            </div>
-            <div className="flex-grow overflow-y-auto pr-2 space-y-4">
-                {messages.map((msg, index) => (
-                    <div key={index} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'} animate-fade-in-slide-up`}>
-                        <div className={`p-3 rounded-lg max-w-lg ${msg.role === 'user' ? 'bg-purple-700' : 'bg-gray-700'}`}>
-                            <p className="whitespace-pre-wrap">{msg.text}</p>
-                            {msg.groundingChunks && msg.groundingChunks.length > 0 && (
-                                <div className="mt-2 border-t border-gray-600 pt-2">
-                                    <h4 className="text-xs font-semibold text-gray-400 mb-1">Sources:</h4>
-                                    <ul className="text-xs space-y-1">
-                                        {msg.groundingChunks.map((chunk, i) => (
-                                            <li key={i}>
-                                                <a href={chunk.web?.uri || chunk.maps?.uri} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:underline truncate block">
-                                                    {chunk.web?.title || chunk.maps?.title || 'Source'}
-                                                </a>
-                                            </li>
-                                        ))}
-                                    </ul>
-                                </div>
-                            )}
-                            {msg.role === 'model' && (
-                                <button onClick={() => handlePlayTTS(msg.text)} className="mt-2 text-gray-400 hover:text-white" title="Read aloud">
-                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path d="M10 3a1 1 0 011 1v1.333a1 1 0 01-.527.882l-2.5 1.25a1 1 0 01-1.473-.882V4a1 1 0 011-1h2zm-3 0a1 1 0 011 1v1.333a1 1 0 01-.527.882l-2.5 1.25a1 1 0 01-1.473-.882V4a1 1 0 011-1h2zM15 4a1 1 0 00-1-1h-2a1 1 0 00-1 1v1.333a1 1 0 00.527.882l2.5 1.25a1 1 0 001.473-.882V4z" /><path d="M3 8.5a1.5 1.5 0 013 0V15a1 1 0 01-1 1H5a1 1 0 01-1-1V8.5zM9 8.5a1.5 1.5 0 013 0V15a1 1 0 01-1 1h-1a1 1 0 01-1-1V8.5zM15 8.5a1.5 1.5 0 013 0V15a1 1 0 01-1 1h-1a1 1 0 01-1-1V8.5z" /></svg>
-                                </button>
-                            )}
-                        </div>
+        <div className="max-w-6xl mx-auto flex gap-4 h-[calc(100vh-200px)]">
+            <ChatSidebar
+                conversations={conversations}
+                activeId={conversationId}
+                onSelect={handleSelectConversation}
+                onNew={handleNewChat}
+                onRename={handleRenameConversation}
+                onDelete={handleDeleteConversation}
+                onImport={handleImport}
+                disabled={isLoading}
+            />
+            <div
+                className={`flex-grow min-w-0 bg-gray-800/50 rounded-xl shadow-lg p-4 flex flex-col ${isDraggingFiles ? 'ring-2 ring-purple-500' : ''}`}
+                onDragOver={e => { e.preventDefault(); setIsDraggingFiles(true); }}
+                onDragLeave={e => { if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDraggingFiles(false); }}
+                onDrop={handleDrop}
+            >
+                <div className="flex items-center justify-between mb-4 border-b border-gray-700 pb-3 gap-4">
+                    <h2 className="text-xl font-semibold text-purple-300 truncate">{title || 'Chat Studio'}</h2>
+                    <div className="flex items-center gap-2">
+                        <button
+                            onClick={() => setIsInstructionOpen(!isInstructionOpen)}
+                            className={`px-3 py-2 text-sm rounded-md transition ${isInstructionOpen || systemInstruction.trim() ? 'bg-purple-600/30 text-purple-200' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                            aria-expanded={isInstructionOpen}
+                        >
+                            Instructions
+                        </button>
+                        <ChatExportMenu onExport={handleExport} disabled={messages.length === 0 || isLoading} />
+                        <button
+                            onClick={() => setIsComparing(!isComparing)}
+                            disabled={isLoading || comparison !== null}
+                            className={`px-3 py-2 text-sm rounded-md transition disabled:opacity-40 ${isComparing ? 'bg-purple-600/30 text-purple-200' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                            aria-pressed={isComparing}
+                            title="Send the next question to several modes and pick the best answer"
+                        >
+                            Compare
+                        </button>
+                        <select value={mode} onChange={e => setMode(e.target.value as ChatMode)} className="bg-gray-700 border border-gray-600 rounded-md p-2 text-white focus:ring-purple-500 focus:border-purple-500">
+                            {Object.entries(modeConfig).map(([key, value]) => <option key={key} value={key}>{value.name}</option>)}
+                        </select>
                     </div>
-                ))}
-                {isLoading && (
-                    <div className="flex justify-start animate-fade-in-slide-up">
-                        <div className="p-3 rounded-lg bg-gray-700 flex items-center space-x-1.5 h-[40px]">
-                            <div className="w-2 h-2 bg-purple-300 rounded-full animate-typing-bounce" style={{ animationDelay: '0.1s' }}></div>
-                            <div className="w-2 h-2 bg-purple-300 rounded-full animate-typing-bounce" style={{ animationDelay: '0.2s' }}></div>
-                            <div className="w-2 h-2 bg-purple-300 rounded-full animate-typing-bounce" style={{ animationDelay: '0.3s' }}></div>
-                        </div>
+                </div>
+                {isInstructionOpen && (
+                    <div className="mb-4">
+                        <textarea
+                            value={systemInstruction}
+                            onChange={e => setSystemInstruction(e.target.value)}
+                            placeholder="System instruction for this conversation, e.g. You are a concise travel planner. Answer in bullet points."
+                            rows={3}
+                            className="w-full bg-gray-700/80 border border-gray-600 rounded-md p-3 text-sm focus:ring-2 focus:ring-purple-500 text-gray-200"
+                        />
                     </div>
                 )}
-                <div ref={messagesEndRef} />
-            </div>
-            {error && <div className="mt-2"><ErrorDisplay message={error} /></div>}
-            <div className="mt-4 pt-4 border-t border-gray-700 flex items-center gap-4">
-                <textarea
-                    value={input}
-                    onChange={e => setInput(e.target.value)}
-                    onKeyDown={e => { if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); handleSend(); } }}
-                    placeholder="Type your message..."
-                    className="flex-grow bg-gray-700/80 border border-gray-600 rounded-md p-3 focus:ring-2 focus:ring-purple-500 transition text-gray-200"
-                    rows={2}
-                />
-                <button onClick={handleSend} disabled={isLoading} className="bg-purple-600 hover:bg-purple-700 text-white font-bold py-3 px-6 rounded-lg transition disabled:bg-gray-600">
-                    Send
-                </button>
+                {isComparing && (
+                    <div className="mb-3 flex flex-wrap items-center gap-2">
+                        <span className="text-xs text-gray-400">Compare {MIN_COMPARED_MODES}–{MAX_COMPARED_MODES} modes:</span>
+                        {CHAT_MODES.map(m => (
+                            <button
+                                key={m}
+                                onClick={() => toggleCompareMode(m)}
+                                disabled={isLoading || comparison !== null}
+                                className={`px-2 py-1 text-xs rounded-md transition ${compareModes.includes(m) ? 'bg-purple-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                                aria-pressed={compareModes.includes(m)}
+                            >
+                                {modeNames[m]}
+                            </button>
+                        ))}
+                    </div>
+                )}
+                {needsLocation && <LocationPicker location={location} onChange={setLocation} disabled={isLoading} />}
+                {summary && (
+                    <p className="mb-2 text-xs text-gray-500 italic text-center">
+                        The first {summary.messageCount} messages were summarized to fit the model's context window.
+                    </p>
+                )}
+                <div className="flex-grow overflow-y-auto pr-2 space-y-4">
+                    {messages.map((msg, index) => (msg.text || msg.attachments?.length || msg.toolCalls?.length) ? (
+                        <div key={index} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'} animate-fade-in-slide-up`}>
+                            <div className={`p-3 rounded-lg min-w-0 ${msg.role === 'user' ? 'max-w-lg bg-purple-700' : 'max-w-full bg-gray-700'}`}>
+                                {msg.attachments && <ChatAttachments attachments={msg.attachments} />}
+                                {msg.toolCalls && <ToolCallSteps toolCalls={msg.toolCalls} />}
+                                {msg.role === 'model'
+                                    ? <MarkdownRenderer text={msg.citations ? insertCitations(msg.text, msg.citations, msg.groundingChunks ?? []) : msg.text} />
+                                    : <p className="whitespace-pre-wrap">{msg.text}</p>}
+                                <GroundingSources chunks={msg.groundingChunks ?? []} searchEntryPoint={msg.searchEntryPoint} />
+                                {msg.role === 'model' && !(isLoading && index === messages.length - 1) && (
+                                    <div className="mt-2 flex items-center gap-3">
+                                        <button onClick={() => handlePlayTTS(msg.text)} className="text-gray-400 hover:text-white" title="Read aloud">
+                                            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path d="M10 3a1 1 0 011 1v1.333a1 1 0 01-.527.882l-2.5 1.25a1 1 0 01-1.473-.882V4a1 1 0 011-1h2zm-3 0a1 1 0 011 1v1.333a1 1 0 01-.527.882l-2.5 1.25a1 1 0 01-1.473-.882V4a1 1 0 011-1h2zM15 4a1 1 0 00-1-1h-2a1 1 0 00-1 1v1.333a1 1 0 00.527.882l2.5 1.25a1 1 0 001.473-.882V4z" /><path d="M3 8.5a1.5 1.5 0 013 0V15a1 1 0 01-1 1H5a1 1 0 01-1-1V8.5zM9 8.5a1.5 1.5 0 013 0V15a1 1 0 01-1 1h-1a1 1 0 01-1-1V8.5zM15 8.5a1.5 1.5 0 013 0V15a1 1 0 01-1 1h-1a1 1 0 01-1-1V8.5z" /></svg>
+                                        </button>
+                                        {msg.truncated && index === messages.length - 1 && (
+                                            <button onClick={() => handleContinue(index)} className="text-xs text-purple-300 hover:text-purple-200" title="Resume this answer where it stopped">
+                                                Continue ↪
+                                            </button>
+                                        )}
+                                    </div>
+                                )}
+                            </div>
+                        </div>
+                    ) : null)}
+                    {isLoading && !messages[messages.length - 1]?.text && (
+                        <div className="flex justify-start animate-fade-in-slide-up">
+                            <div className="p-3 rounded-lg bg-gray-700 flex items-center space-x-1.5 h-[40px]">
+                                <div className="w-2 h-2 bg-purple-300 rounded-full animate-typing-bounce" style={{ animationDelay: '0.1s' }}></div>
+                                <div className="w-2 h-2 bg-purple-300 rounded-full animate-typing-bounce" style={{ animationDelay: '0.2s' }}></div>
+                                <div className="w-2 h-2 bg-purple-300 rounded-full animate-typing-bounce" style={{ animationDelay: '0.3s' }}></div>
+                            </div>
+                        </div>
+                    )}
+                    {comparison && (
+                        <ComparisonView
+                            answers={comparison}
+                            modeNames={modeNames}
+                            isLoading={isLoading}
+                            onPick={handlePickAnswer}
+                            onDiscard={handleDiscardComparison}
+                        />
+                    )}
+                    <div ref={messagesEndRef} />
+                </div>
+                {error && <div className="mt-2"><ErrorDisplay message={error} /></div>}
+                <div className="mt-4 pt-4 border-t border-gray-700">
+                    <ChatAttachments attachments={attachments} onRemove={index => setAttachments(prev => prev.filter((_, i) => i !== index))} />
+                    <div className="flex items-center gap-4">
+                        <button
+                            onClick={() => attachmentInputRef.current?.click()}
+                            disabled={isLoading}
+                            className="p-2 rounded-full text-gray-400 hover:text-white hover:bg-gray-700 transition disabled:opacity-50"
+                            aria-label="Attach files"
+                            title="Attach images, PDFs or text files"
+                        >
+                            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                                <path strokeLinecap="round" strokeLinejoin="round" d="M15.172 7l-6.586 6.586a2 2 0 102.828 2.828l6.414-6.586a4 4 0 00-5.656-5.656l-6.415 6.585a6 6 0 108.486 8.486L20.5 13" />
+                            </svg>
+                        </button>
+                        <input ref={attachmentInputRef} type="file" accept={ATTACHMENT_ACCEPT} multiple onChange={handleAttachmentInput} className="hidden" />
+                        <textarea
+                            value={input}
+                            onChange={e => setInput(e.target.value)}
+                            onKeyDown={e => { if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); handleSend(); } }}
+                            placeholder={comparison ? 'Pick an answer above to continue...' : isDraggingFiles ? 'Drop files to attach them...' : 'Type your message...'}
+                            className="flex-grow bg-gray-700/80 border border-gray-600 rounded-md p-3 focus:ring-2 focus:ring-purple-500 transition text-gray-200"
+                            rows={2}
+                        />
+                        {isLoading ? (
+                            <button onClick={handleStop} className="bg-red-600 hover:bg-red-700 text-white font-bold py-3 px-6 rounded-lg transition">
+                                Stop
+                            </button>
+                        ) : (
+                            <button onClick={handleSend} disabled={comparison !== null} className="bg-purple-600 hover:bg-purple-700 text-white font-bold py-3 px-6 rounded-lg transition disabled:bg-gray-600">
+                                Send
+                            </button>
+                        )}
+                    </div>
+                </div>
             </div>
         </div>
     );
 };
 
-const ImageEditStudio: React.FC = () => {
+const ImageEditStudio: React.FC<{ initialImage?: File | null; onInitialImageLoaded?: () => void }> = ({ initialImage, onInitialImageLoaded }) => {
     // This component encapsulates all the logic from the original App.tsx
     const [originalImage, setOriginalImage] = useState<File | null>(null);
+    // Content hash of the original image; history is keyed by it rather than the file name.
+    const [imageKey, setImageKey] = useState<string | null>(null);
     const [editedImage, setEditedImage] = useState<string | null>(null);
+    // History entry currently shown as the edited image; the next edit branches from it.
+    const [activeEntryId, setActiveEntryId] = useState<number | null>(null);
     const [prompt, setPrompt] = useState<string>('');
     const [isLoading, setIsLoading] = useState<boolean>(false);
     const [error, setError] = useState<string | null>(null);
     const [aiTextResponse, setAiTextResponse] = useState<string | null>(null);
     const [history, setHistory] = useState<HistoryEntry[]>([]);
     const [selectedStyle, setSelectedStyle] = useState<string | null>(null);
+    const [storageUsage, setStorageUsage] = useState<HistoryStorageUsage | null>(null);
+    // Black/white PNG data URL limiting the next edit to the painted area.
+    const [mask, setMask] = useState<string | null>(null);
+    // Additional images sent with each edit, in the order the prompt refers to them.
+    const [references, setReferences] = useState<ReferenceImage[]>([]);
+    // Bumped on every upload and reset, so a slow hash of an earlier image is ignored.
+    const uploadIdRef = useRef(0);
+    // History key of the current image while it is still being hashed; null if there is none.
+    const imageKeyPromiseRef = useRef<Promise<string | null>>(Promise.resolve(null));
+
+    const refreshStorageUsage = useCallback(() => {
+      getHistoryStorageUsage()
+        .then(setStorageUsage)
+        .catch(err => console.error("Failed to read history storage usage", err));
+    }, []);
   
-    const handleImageUpload = (file: File) => {
+    const clearReferences = () => {
+      references.forEach(r => URL.revokeObjectURL(r.previewUrl));
+      setReferences([]);
+    };
+
+    // The first file becomes the image to edit; any others are added as reference images.
+    const handleImagesUpload = async (files: File[]) => {
+      const [file, ...extraFiles] = files;
+      const uploadId = ++uploadIdRef.current;
+      clearReferences();
+      setReferences(extraFiles.map(f => createReferenceImage(f)));
       setOriginalImage(file);
+      setImageKey(null);
       setEditedImage(null);
+      setActiveEntryId(null);
       setPrompt('');
       setError(null);
       setAiTextResponse(null);
       setSelectedStyle(null);
-      setHistory(getHistoryForImage(file.name));
+      setHistory([]);
+
+      const keyPromise = hashBlob(file);
+      imageKeyPromiseRef.current = keyPromise.catch(() => null);
+      try {
+        const key = await keyPromise;
+        if (uploadIdRef.current !== uploadId) return;
+        setImageKey(key);
+        const entries = await getHistoryForImage(key, file.name);
+        if (uploadIdRef.current !== uploadId) return;
+        // Edits that finished while history was loading are kept alongside it.
+        setHistory(prev => [...prev.filter(e => !entries.some(saved => saved.id === e.id)), ...entries]);
+        refreshStorageUsage();
+      } catch (err) {
+        if (uploadIdRef.current !== uploadId) return;
+        const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+        setError(`Failed to load edit history: ${errorMessage}`);
+      }
     };
+
+    // An image handed over from another tab, e.g. a generated candidate, opens straight in the editor.
+    useEffect(() => {
+      if (initialImage) {
+        handleImagesUpload([initialImage]);
+        onInitialImageLoaded?.();
+      }
+    }, [initialImage]);
   
+    // Shows an edit result and saves it to history as a child of the edit it was made from.
+    const recordEdit = useCallback(async (result: EditImageResult, details: Pick<HistoryEntry, 'prompt' | 'style' | 'inputs'>) => {
+      setEditedImage(result.imageUrl);
+      if (result.text) {
+        setAiTextResponse(result.text);
+      }
+      const newEntry: HistoryEntry = {
+        id: Date.now(),
+        ...details,
+        imageUrl: result.imageUrl,
+        text: result.text || '',
+        parentId: activeEntryId,
+      };
+      setActiveEntryId(newEntry.id);
+      setHistory(prev => [newEntry, ...prev]);
+      // An edit can finish before the image has been hashed, so wait for its key.
+      const uploadId = uploadIdRef.current;
+      const key = imageKey ?? await imageKeyPromiseRef.current;
+      if (!key || uploadIdRef.current !== uploadId) return;
+      try {
+        // The entry this edit was made from may still be shown (e.g. after reverting back to it), so it stays.
+        const evictedIds = await addHistoryEntry(key, newEntry, activeEntryId !== null ? [activeEntryId] : []);
+        if (evictedIds.length > 0) {
+          setHistory(prev => prev.filter(e => !evictedIds.includes(e.id)));
+        }
+        refreshStorageUsage();
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+        setError(`Edit succeeded but could not be saved to history: ${errorMessage}`);
+      }
+    }, [imageKey, activeEntryId, refreshStorageUsage]);
+
     const handleGenerate = useCallback(async () => {
       if (!originalImage || !prompt.trim()) {
         setError('Please provide an image and a prompt.');
@@ -214,42 +861,91 @@ const ImageEditStudio: React.FC = () => {
       setAiTextResponse(null);
   
       try {
-        const stylePreset = STYLE_PRESETS.find(p => p.name === selectedStyle);
+        const stylePreset = findPreset(selectedStyle);
         const fullPrompt = `${prompt}${stylePreset ? stylePreset.promptSuffix : ''}`;
-        const { base64, mimeType } = await fileToBase64(originalImage);
-        const result: EditImageResult = await nanoBananaEditImage(base64, mimeType, fullPrompt);
-        setEditedImage(result.imageUrl);
-        if (result.text) {
-          setAiTextResponse(result.text);
-        }
-        const newEntry: HistoryEntry = { id: Date.now(), prompt, style: selectedStyle, imageUrl: result.imageUrl, text: result.text || '' };
-        addHistoryEntry(originalImage.name, newEntry);
-        setHistory(prev => [newEntry, ...prev]);
+        // Edits are iterative: the image currently on screen is the input for the next step.
+        const { base64, mimeType } = editedImage ? await urlToBase64(editedImage) : await fileToBase64(originalImage);
+        const maskFile = mask ? await urlToBase64(mask) : undefined;
+        const inputs = await Promise.all(references.map(async r => ({ ...(await fileToBase64(r.file)), role: r.role })));
+        const result: EditImageResult = await nanoBananaEditImage(base64, mimeType, fullPrompt, maskFile, inputs);
+        // The edit has already succeeded here, so a thumbnail failure only leaves the inputs out of its history entry.
+        const historyInputs = await Promise.all(references.map(async r => ({
+          role: r.role,
+          name: r.file.name,
+          thumbnailUrl: await createThumbnail(r.previewUrl, 96),
+        }))).catch(err => {
+          const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+          setError(`Edit succeeded but its reference thumbnails could not be saved: ${errorMessage}`);
+          return undefined;
+        });
+        await recordEdit(result, { prompt, style: selectedStyle, inputs: historyInputs });
       } catch (err) {
         const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
         setError(`Failed to edit image: ${errorMessage}`);
       } finally {
         setIsLoading(false);
       }
-    }, [originalImage, prompt, selectedStyle]);
+    }, [originalImage, editedImage, mask, references, prompt, selectedStyle, recordEdit]);
+
+    // Places the current image in a larger canvas and has the model fill the added area.
+    const handleExpand = useCallback(async (padding: CanvasPadding, note: string) => {
+      if (!originalImage) return;
+
+      setIsLoading(true);
+      setError(null);
+      setAiTextResponse(null);
+      const originalUrl = editedImage ? null : URL.createObjectURL(originalImage);
+
+      try {
+        const expanded = await expandCanvas(editedImage ?? originalUrl!, padding);
+        const { base64, mimeType } = await urlToBase64(expanded.imageUrl);
+        const maskFile = await urlToBase64(expanded.maskUrl);
+        const instruction = 'Fill the flat gray border by extending the scene outward, so the whole canvas reads as one seamless photo with matching perspective, lighting and style.'
+          + (note ? ` In the new area, show: ${note}.` : '');
+        const result: EditImageResult = await nanoBananaEditImage(base64, mimeType, instruction, maskFile);
+        await recordEdit(result, {
+          prompt: `Expand canvas to ${expanded.width}×${expanded.height}${note ? `: ${note}` : ''}`,
+          style: null,
+          inputs: [],
+        });
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+        setError(`Failed to expand image: ${errorMessage}`);
+      } finally {
+        if (originalUrl) URL.revokeObjectURL(originalUrl);
+        setIsLoading(false);
+      }
+    }, [originalImage, editedImage, recordEdit]);
   
     const handleReset = () => {
+      uploadIdRef.current++;
+      imageKeyPromiseRef.current = Promise.resolve(null);
       setOriginalImage(null);
+      setImageKey(null);
       setEditedImage(null);
+      setActiveEntryId(null);
       setPrompt('');
       setError(null);
       setAiTextResponse(null);
       setIsLoading(false);
       setHistory([]);
       setSelectedStyle(null);
+      clearReferences();
     };
   
     const handleRevert = (entry: HistoryEntry) => {
       setEditedImage(entry.imageUrl);
+      setActiveEntryId(entry.id);
       setPrompt(entry.prompt);
       setAiTextResponse(entry.text || null);
       setSelectedStyle(entry.style || null);
     };
+
+    const handleSelectOriginal = () => {
+      setEditedImage(null);
+      setActiveEntryId(null);
+      setAiTextResponse(null);
+    };
   
     const handleLike = useCallback((entry: HistoryEntry) => {
       if (!originalImage) return;
@@ -259,20 +955,42 @@ const ImageEditStudio: React.FC = () => {
       link.click();
     }, [originalImage]);
   
-    const handleDislike = useCallback((entry: HistoryEntry) => {
-      if (!originalImage) return;
-      deleteHistoryEntry(originalImage.name, entry.id);
-      setHistory(prev => prev.filter(e => e.id !== entry.id));
-    }, [originalImage]);
+    const handleDislike = useCallback(async (entry: HistoryEntry) => {
+      if (!imageKey) return;
+      // Children of the deleted edit move up to its parent, mirroring the stored tree.
+      setHistory(prev => prev
+        .filter(e => e.id !== entry.id)
+        .map(e => e.parentId === entry.id ? { ...e, parentId: entry.parentId ?? null } : e));
+      if (entry.id === activeEntryId) {
+        const parent = history.find(e => e.id === entry.parentId);
+        setActiveEntryId(parent ? parent.id : null);
+        setEditedImage(parent ? parent.imageUrl : null);
+        setAiTextResponse(parent?.text || null);
+      }
+      try {
+        await deleteHistoryEntry(imageKey, entry.id);
+        refreshStorageUsage();
+      } catch (err) {
+        console.error("Failed to delete history entry", err);
+      }
+    }, [imageKey, activeEntryId, history, refreshStorageUsage]);
   
-    const handleClearHistory = useCallback(() => {
-      if (!originalImage) return;
-      clearHistoryForImage(originalImage.name);
+    const handleClearHistory = useCallback(async () => {
+      if (!imageKey) return;
       setHistory([]);
-    }, [originalImage]);
+      setActiveEntryId(null);
+      setEditedImage(null);
+      setAiTextResponse(null);
+      try {
+        await clearHistoryForImage(imageKey);
+        refreshStorageUsage();
+      } catch (err) {
+        console.error("Failed to clear history", err);
+      }
+    }, [imageKey, refreshStorageUsage]);
 
     if (!originalImage) {
-        return <ImageUploader onImageUpload={handleImageUpload} />;
+        return <ImageUploader onFilesUpload={handleImagesUpload} />;
     }
   
     return (
@@ -285,37 +1003,93 @@ const ImageEditStudio: React.FC = () => {
         error={error}
         aiTextResponse={aiTextResponse}
         onGenerate={handleGenerate}
+        onExpand={handleExpand}
         onReset={handleReset}
         history={history}
         onRevert={handleRevert}
+        activeEntryId={activeEntryId}
+        onSelectOriginal={handleSelectOriginal}
         selectedStyle={selectedStyle}
         onStyleSelect={setSelectedStyle}
         onLikeHistory={handleLike}
         onDislikeHistory={handleDislike}
         onClearHistory={handleClearHistory}
+        hasMask={mask !== null}
+        onMaskChange={setMask}
+        references={references}
+        onReferencesChange={setReferences}
+        storageUsage={storageUsage}
       />
     );
 };
 
-const ImageGenerateStudio: React.FC = () => {
+const GENERATE_ASPECT_RATIOS = [
+    { value: '1:1', label: 'Square (1:1)' },
+    { value: '16:9', label: 'Landscape (16:9)' },
+    { value: '9:16', label: 'Portrait (9:16)' },
+    { value: '4:3', label: 'Standard (4:3)' },
+    { value: '3:4', label: 'Tall (3:4)' },
+];
+
+const randomSeed = () => Math.floor(Math.random() * 2147483647);
+
+const ImageGenerateStudio: React.FC<{ onSendToEditor: (image: File) => void }> = ({ onSendToEditor }) => {
     const [prompt, setPrompt] = useState('');
+    const [negativePrompt, setNegativePrompt] = useState('');
     const [aspectRatio, setAspectRatio] = useState('1:1');
+    const [model, setModel] = useState(IMAGE_GENERATION_MODELS[0].id);
+    const [numberOfImages, setNumberOfImages] = useState(1);
+    // Empty means a random seed per request.
+    const [seed, setSeed] = useState('');
+    const [selectedStyle, setSelectedStyle] = useState<string | null>(null);
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
-    const [generatedImage, setGeneratedImage] = useState<string | null>(null);
+    const [generatedImages, setGeneratedImages] = useState<string[]>([]);
+    const [generations, setGenerations] = useState<GenerationEntry[]>([]);
+    const [activeGenerationId, setActiveGenerationId] = useState<number | null>(null);
+
+    const modelInfo = IMAGE_GENERATION_MODELS.find(m => m.id === model) ?? IMAGE_GENERATION_MODELS[0];
+
+    useEffect(() => {
+        getGenerations()
+            .then(setGenerations)
+            .catch(err => console.error("Failed to load generation history", err));
+    }, []);
 
     const handleGenerate = async () => {
         if (!prompt.trim()) {
             setError('Please enter a prompt.');
             return;
         }
+        const parsedSeed = modelInfo.supportsSeed && seed.trim() ? parseInt(seed, 10) : null;
+        if (parsedSeed !== null && (!Number.isInteger(parsedSeed) || parsedSeed < 0)) {
+            setError('Seed must be a whole number of 0 or more.');
+            return;
+        }
         setIsLoading(true);
         setError(null);
-        setGeneratedImage(null);
+        setGeneratedImages([]);
+        setActiveGenerationId(null);
 
         try {
-            const result = await generateImage(prompt, aspectRatio);
-            setGeneratedImage(result);
+            const stylePreset = findPreset(selectedStyle);
+            const fullPrompt = `${prompt}${stylePreset ? stylePreset.promptSuffix : ''}`;
+            const images = await generateImage(fullPrompt, aspectRatio, { model, numberOfImages, negativePrompt, seed: parsedSeed });
+            setGeneratedImages(images);
+            if (images.length < numberOfImages) {
+                setError(`Only ${images.length} of ${numberOfImages} images were returned; the rest may have been filtered.`);
+            }
+            try {
+                const { entry, evictedIds } = await addGeneration(
+                    { prompt, negativePrompt, style: selectedStyle, aspectRatio, model, numberOfImages, seed: parsedSeed },
+                    images
+                );
+                setActiveGenerationId(entry.id);
+                setGenerations(prev => [entry, ...prev.filter(g => !evictedIds.includes(g.id))]);
+            } catch (err) {
+                const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+                setError(`Images were generated but could not be saved to history: ${errorMessage}`);
+            }
         } catch (err) {
             const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
             setError(`Failed to generate image: ${errorMessage}`);
@@ -324,70 +1098,559 @@ const ImageGenerateStudio: React.FC = () => {
         }
     };
 
+    const handleRestore = (generation: GenerationEntry) => {
+        setPrompt(generation.prompt);
+        setNegativePrompt(generation.negativePrompt);
+        setAspectRatio(generation.aspectRatio);
+        setModel(generation.model);
+        setNumberOfImages(generation.numberOfImages);
+        setSeed(generation.seed !== null ? String(generation.seed) : '');
+        setSelectedStyle(generation.style);
+        setGeneratedImages(generation.imageUrls);
+        setActiveGenerationId(generation.id);
+        setError(null);
+    };
+
+    const handleDeleteGeneration = async (generation: GenerationEntry) => {
+        setGenerations(prev => prev.filter(g => g.id !== generation.id));
+        if (generation.id === activeGenerationId) {
+            setGeneratedImages([]);
+            setActiveGenerationId(null);
+        }
+        try {
+            await deleteGeneration(generation.id);
+        } catch (err) {
+            console.error("Failed to delete generation", err);
+        }
+    };
+
+    const handleClearGenerations = async () => {
+        if (!window.confirm('Delete all saved generations?')) return;
+        setGenerations([]);
+        if (activeGenerationId !== null) {
+            setGeneratedImages([]);
+            setActiveGenerationId(null);
+        }
+        try {
+            await clearGenerations();
+        } catch (err) {
+            console.error("Failed to clear generation history", err);
+        }
+    };
+
+    const handleSendToEditor = async (url: string, index: number) => {
+        try {
+            const blob = await dataUrlToBlob(url);
+            const extension = blob.type.split('/')[1] || 'png';
+            onSendToEditor(new File([blob], `generated_${activeGenerationId ?? Date.now()}_${index + 1}.${extension}`, { type: blob.type }));
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+            setError(`Failed to open image in the editor: ${errorMessage}`);
+        }
+    };
+
+    // Gemini image models may return JPEG, so the extension follows the image's actual type.
+    const handleDownload = async (url: string, index: number) => {
+        try {
+            const { type } = await dataUrlToBlob(url);
+            const link = document.createElement('a');
+            link.download = `generated_${activeGenerationId ?? Date.now()}_${index + 1}.${imageExtension(type)}`;
+            link.href = url;
+            link.click();
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+            setError(`Failed to download image: ${errorMessage}`);
+        }
+    };
+
     return (
-        <div className="max-w-4xl mx-auto space-y-6">
-            <div className="bg-gray-800/50 p-6 rounded-xl shadow-lg">
-                <h2 className="text-xl font-semibold mb-4 text-purple-300">Image Generation Studio</h2>
-                <div className="space-y-4">
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="lg:col-span-1 space-y-6">
+                <div className="bg-gray-800/50 p-6 rounded-xl shadow-lg">
+                    <h2 className="text-xl font-semibold mb-4 text-purple-300">Image Generation Studio</h2>
+                    <div className="space-y-4">
+                        <textarea
+                            value={prompt}
+                            onChange={e => setPrompt(e.target.value)}
+                            placeholder="e.g., A robot holding a red skateboard."
+                            rows={3}
+                            className="w-full bg-gray-700/80 border border-gray-600 rounded-md p-3 focus:ring-2 focus:ring-purple-500"
+                            disabled={isLoading}
+                        />
+                        <input
+                            value={negativePrompt}
+                            onChange={e => setNegativePrompt(e.target.value)}
+                            placeholder="Negative prompt, e.g. text, watermark, blur"
+                            className="w-full bg-gray-700/80 border border-gray-600 rounded-md p-3 focus:ring-2 focus:ring-purple-500"
+                            disabled={isLoading}
+                        />
+                        <select
+                            value={model}
+                            onChange={e => setModel(e.target.value)}
+                            className="w-full bg-gray-700/80 border border-gray-600 rounded-md p-3 focus:ring-2 focus:ring-purple-500"
+                            disabled={isLoading}
+                        >
+                            {IMAGE_GENERATION_MODELS.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+                        </select>
+                        <select
+                            value={aspectRatio}
+                            onChange={e => setAspectRatio(e.target.value)}
+                            className="w-full bg-gray-700/80 border border-gray-600 rounded-md p-3 focus:ring-2 focus:ring-purple-500"
+                            disabled={isLoading}
+                        >
+                            {GENERATE_ASPECT_RATIOS.map(ratio => <option key={ratio.value} value={ratio.value}>{ratio.label}</option>)}
+                        </select>
+                        <div>
+                            <p className="text-sm text-gray-400 mb-2">Candidates</p>
+                            <div className="flex gap-2">
+                                {Array.from({ length: MAX_GENERATED_IMAGES }, (_, i) => i + 1).map(count => (
+                                    <button
+                                        key={count}
+                                        onClick={() => setNumberOfImages(count)}
+                                        disabled={isLoading}
+                                        className={`flex-1 py-2 rounded-md text-sm transition ${numberOfImages === count ? 'bg-purple-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                                    >
+                                        {count}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                        <div>
+                            <div className="flex gap-2">
+                                <input
+                                    type="number"
+                                    min={0}
+                                    value={seed}
+                                    onChange={e => setSeed(e.target.value)}
+                                    placeholder="Seed (random)"
+                                    className="flex-grow bg-gray-700/80 border border-gray-600 rounded-md p-3 focus:ring-2 focus:ring-purple-500 disabled:opacity-50"
+                                    disabled={isLoading || !modelInfo.supportsSeed}
+                                />
+                                <button
+                                    onClick={() => setSeed(String(randomSeed()))}
+                                    disabled={isLoading || !modelInfo.supportsSeed}
+                                    className="px-3 rounded-md bg-gray-700 text-gray-300 hover:bg-gray-600 transition disabled:opacity-50"
+                                    title="Pick a random seed"
+                                >
+                                    🎲
+                                </button>
+                            </div>
+                            {!modelInfo.supportsSeed && <p className="mt-1 text-xs text-gray-500">{modelInfo.label} does not accept a seed.</p>}
+                        </div>
+                        <button onClick={handleGenerate} disabled={isLoading || !prompt.trim()} className="w-full bg-purple-600 hover:bg-purple-700 text-white font-bold py-3 rounded-lg transition disabled:bg-gray-600">
+                            {isLoading ? 'Generating...' : numberOfImages > 1 ? `Generate ${numberOfImages} Images` : 'Generate Image'}
+                        </button>
+                        {error && <ErrorDisplay message={error} />}
+                    </div>
+                </div>
+                <StyleFilters selectedStyle={selectedStyle} onStyleSelect={setSelectedStyle} thumbnailSources={generatedImages} />
+                <GenerationHistoryPanel
+                    generations={generations}
+                    activeGenerationId={activeGenerationId}
+                    onRestore={handleRestore}
+                    onDelete={handleDeleteGeneration}
+                    onClear={handleClearGenerations}
+                />
+            </div>
+            <div className="lg:col-span-2">
+                {isLoading ? (
+                    <div className="bg-gray-800/50 p-6 rounded-xl shadow-lg flex justify-center items-center aspect-square">
+                        <LoadingSpinner text={numberOfImages > 1 ? `Generating ${numberOfImages} images...` : 'Generating image...'} />
+                    </div>
+                ) : generatedImages.length > 0 ? (
+                    <div className={`grid gap-4 ${generatedImages.length > 1 ? 'grid-cols-1 sm:grid-cols-2' : 'grid-cols-1'}`}>
+                        {generatedImages.map((url, index) => (
+                            <div key={url} className="bg-gray-800/50 p-3 rounded-xl shadow-lg group">
+                                <img src={url} alt={`Generated candidate ${index + 1}`} className="w-full object-contain rounded-lg" />
+                                <div className="flex gap-2 mt-3">
+                                    <button
+                                        onClick={() => handleSendToEditor(url, index)}
+                                        className="flex-1 py-2 text-sm rounded-md bg-purple-600 hover:bg-purple-700 text-white transition"
+                                    >
+                                        Edit this image
+                                    </button>
+                                    <button
+                                        onClick={() => handleDownload(url, index)}
+                                        className="px-3 py-2 text-sm rounded-md bg-gray-700 text-gray-300 hover:bg-gray-600 transition"
+                                    >
+                                        Download
+                                    </button>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                ) : (
+                    <div className="bg-gray-800/50 p-6 rounded-xl shadow-lg flex justify-center items-center aspect-square text-gray-500">
+                        Generated images will appear here.
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+type BatchItemStatus = 'pending' | 'running' | 'done' | 'failed';
+
+interface BatchItem {
+    id: string;
+    file: File;
+    previewUrl: string;
+    status: BatchItemStatus;
+    resultUrl?: string;
+    prompt?: string; // Full prompt (including style) the item was processed with
+    error?: string;
+}
+
+const BATCH_CONCURRENCY = 3;
+
+const ImageBatchStudio: React.FC = () => {
+    const [items, setItems] = useState<BatchItem[]>([]);
+    const [prompt, setPrompt] = useState('');
+    const [selectedStyle, setSelectedStyle] = useState<string | null>(null);
+    const [isRunning, setIsRunning] = useState(false);
+    const [isPaused, setIsPaused] = useState(false);
+    const [isDragging, setIsDragging] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    // The queue runs outside React's render cycle, so its state lives in refs.
+    const itemsRef = useRef<BatchItem[]>([]);
+    const pausedRef = useRef(false);
+    const activeCountRef = useRef(0);
+    const jobRef = useRef<{ fullPrompt: string; style: string | null } | null>(null);
+    const folderInputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        // Not part of React's input typings, so it is set on the element directly.
+        folderInputRef.current?.setAttribute('webkitdirectory', '');
+        // Leaving the tab stops new items from starting; running ones still finish.
+        return () => { pausedRef.current = true; };
+    }, []);
+
+    const updateItems = (updater: (items: BatchItem[]) => BatchItem[]) => {
+        itemsRef.current = updater(itemsRef.current);
+        setItems(itemsRef.current);
+    };
+
+    const patchItem = (id: string, patch: Partial<BatchItem>) => {
+        updateItems(list => list.map(item => item.id === id ? { ...item, ...patch } : item));
+    };
+
+    const processItem = async (item: BatchItem, fullPrompt: string) => {
+        try {
+            const { base64, mimeType } = await fileToBase64(item.file);
+            const result = await nanoBananaEditImage(base64, mimeType, fullPrompt);
+            patchItem(item.id, { status: 'done', resultUrl: result.imageUrl, prompt: fullPrompt });
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+            patchItem(item.id, { status: 'failed', error: errorMessage, prompt: fullPrompt });
+        }
+    };
+
+    // Starts pending items until the concurrency limit is reached.
+    const pump = () => {
+        const job = jobRef.current;
+        if (!job) return;
+        while (!pausedRef.current && activeCountRef.current < BATCH_CONCURRENCY) {
+            const next = itemsRef.current.find(item => item.status === 'pending');
+            if (!next) break;
+            activeCountRef.current++;
+            patchItem(next.id, { status: 'running', error: undefined });
+            processItem(next, job.fullPrompt).finally(() => {
+                activeCountRef.current--;
+                pump();
+            });
+        }
+        if (activeCountRef.current === 0 && !itemsRef.current.some(item => item.status === 'pending')) {
+            setIsRunning(false);
+        }
+    };
+
+    const addFiles = (files: File[]) => {
+        const images = files.filter(file => file.type.startsWith('image/'));
+        if (images.length === 0) {
+            setError('No images found. Please add image files or a folder of images.');
+            return;
+        }
+        setError(null);
+        updateItems(list => [
+            ...list,
+            ...images.map((file, i) => ({
+                id: `${Date.now()}-${i}-${file.name}`,
+                file,
+                previewUrl: URL.createObjectURL(file),
+                status: 'pending' as const,
+            })),
+        ]);
+        if (isRunning) pump();
+    };
+
+    const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+        if (e.target.files) addFiles(Array.from<File>(e.target.files));
+        e.target.value = '';
+    };
+
+    const handleDrop = async (e: React.DragEvent<HTMLDivElement>) => {
+        e.preventDefault();
+        setIsDragging(false);
+        addFiles(await getDroppedFiles(e.dataTransfer));
+    };
+
+    const handleStart = () => {
+        if (!prompt.trim()) {
+            setError('Please enter a prompt.');
+            return;
+        }
+        setError(null);
+        const stylePreset = findPreset(selectedStyle);
+        jobRef.current = { fullPrompt: `${prompt}${stylePreset ? stylePreset.promptSuffix : ''}`, style: selectedStyle };
+        pausedRef.current = false;
+        setIsPaused(false);
+        setIsRunning(true);
+        pump();
+    };
+
+    const handlePauseToggle = () => {
+        pausedRef.current = !pausedRef.current;
+        setIsPaused(pausedRef.current);
+        if (!pausedRef.current) pump();
+    };
+
+    const handleRetry = (ids: string[]) => {
+        updateItems(list => list.map(item => ids.includes(item.id) ? { ...item, status: 'pending', error: undefined } : item));
+        if (!jobRef.current) return;
+        pausedRef.current = false;
+        setIsPaused(false);
+        setIsRunning(true);
+        pump();
+    };
+
+    const handleRemove = (item: BatchItem) => {
+        URL.revokeObjectURL(item.previewUrl);
+        updateItems(list => list.filter(i => i.id !== item.id));
+    };
+
+    const handleClear = () => {
+        itemsRef.current.forEach(item => URL.revokeObjectURL(item.previewUrl));
+        updateItems(() => []);
+        jobRef.current = null;
+        setIsRunning(false);
+    };
+
+    const handleDownloadZip = () => {
+        const usedNames = new Set<string>();
+        const uniqueName = (name: string) => {
+            const dot = name.lastIndexOf('.');
+            const [stem, ext] = dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, ''];
+            let candidate = name;
+            for (let n = 2; usedNames.has(candidate); n++) candidate = `${stem}_${n}${ext}`;
+            usedNames.add(candidate);
+            return candidate;
+        };
+
+        const entries: ZipEntry[] = [];
+        const manifestFiles: { source: string; output: string; prompt: string }[] = [];
+        for (const item of itemsRef.current) {
+            if (item.status !== 'done' || !item.resultUrl) continue;
+            const [header, data] = item.resultUrl.split(',');
+            const extension = imageExtension(header.slice('data:'.length));
+            const stem = item.file.name.substring(0, item.file.name.lastIndexOf('.')) || item.file.name;
+            const output = uniqueName(`${stem}_edited.${extension}`);
+            entries.push({ name: output, data: decode(data) });
+            manifestFiles.push({ source: item.file.webkitRelativePath || item.file.name, output, prompt: item.prompt ?? '' });
+        }
+        const manifest = {
+            createdAt: new Date().toISOString(),
+            // The style the batch ran with; the picker may have changed since.
+            style: jobRef.current?.style ?? null,
+            files: manifestFiles,
+            failed: itemsRef.current
+                .filter(item => item.status === 'failed')
+                .map(item => ({ source: item.file.webkitRelativePath || item.file.name, prompt: item.prompt ?? '', error: item.error ?? '' })),
+        };
+        entries.push({ name: 'manifest.json', data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) });
+
+        const url = URL.createObjectURL(createZip(entries));
+        const link = document.createElement('a');
+        link.download = `batch_edits_${Date.now()}.zip`;
+        link.href = url;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+    };
+
+    const counts = items.reduce((acc, item) => ({ ...acc, [item.status]: acc[item.status] + 1 }), { pending: 0, running: 0, done: 0, failed: 0 } as Record<BatchItemStatus, number>);
+    const finished = counts.done + counts.failed;
+    const failedIds = items.filter(item => item.status === 'failed').map(item => item.id);
+
+    const statusStyles: Record<BatchItemStatus, string> = {
+        pending: 'text-gray-400',
+        running: 'text-yellow-400 animate-pulse',
+        done: 'text-green-400',
+        failed: 'text-red-400',
+    };
+
+    return (
+        <div className="max-w-6xl mx-auto flex flex-col lg:flex-row gap-8">
+            <div className="lg:w-1/3 space-y-6">
+                <div className="bg-gray-800/50 p-6 rounded-xl shadow-lg space-y-4">
+                    <h2 className="text-xl font-semibold text-purple-300">Batch Edit</h2>
                     <textarea
                         value={prompt}
                         onChange={e => setPrompt(e.target.value)}
-                        placeholder="e.g., A robot holding a red skateboard."
+                        placeholder="e.g., Put the product on a clean white background."
                         rows={3}
                         className="w-full bg-gray-700/80 border border-gray-600 rounded-md p-3 focus:ring-2 focus:ring-purple-500"
-                        disabled={isLoading}
+                        disabled={isRunning}
                     />
-                    <select
-                        value={aspectRatio}
-                        onChange={e => setAspectRatio(e.target.value)}
-                        className="w-full bg-gray-700/80 border border-gray-600 rounded-md p-3 focus:ring-2 focus:ring-purple-500"
-                        disabled={isLoading}
-                    >
-                        <option value="1:1">Square (1:1)</option>
-                        <option value="16:9">Landscape (16:9)</option>
-                        <option value="9:16">Portrait (9:16)</option>
-                        <option value="4:3">Standard (4:3)</option>
-                        <option value="3:4">Tall (3:4)</option>
-                    </select>
-                    <button onClick={handleGenerate} disabled={isLoading || !prompt.trim()} className="w-full bg-purple-600 hover:bg-purple-700 text-white font-bold py-3 rounded-lg transition disabled:bg-gray-600">
-                        {isLoading ? 'Generating...' : 'Generate Image'}
+                    <button onClick={handleStart} disabled={isRunning || counts.pending === 0 || !prompt.trim()} className="w-full bg-purple-600 hover:bg-purple-700 text-white font-bold py-3 rounded-lg transition disabled:bg-gray-600">
+                        {isRunning ? 'Running...' : `Run ${counts.pending} Edit${counts.pending === 1 ? '' : 's'}`}
                     </button>
+                    {isRunning && (
+                        <button onClick={handlePauseToggle} className="w-full bg-gray-700 hover:bg-gray-600 text-white font-semibold py-2 rounded-lg transition">
+                            {isPaused ? 'Resume' : 'Pause'}
+                        </button>
+                    )}
                     {error && <ErrorDisplay message={error} />}
                 </div>
+                <StyleFilters selectedStyle={selectedStyle} onStyleSelect={setSelectedStyle} disabled={isRunning} />
             </div>
-            {(isLoading || generatedImage) && (
-                 <div className="bg-gray-800/50 p-6 rounded-xl shadow-lg flex justify-center items-center aspect-square">
-                    {isLoading && <LoadingSpinner text="Generating image..." />}
-                    {generatedImage && <img src={generatedImage} alt="Generated" className="max-w-full max-h-full object-contain rounded-lg"/>}
+
+            <div className="lg:w-2/3 space-y-4">
+                <div
+                    onDragOver={e => { e.preventDefault(); setIsDragging(true); }}
+                    onDragLeave={() => setIsDragging(false)}
+                    onDrop={handleDrop}
+                    className={`border-2 border-dashed rounded-xl p-6 text-center transition ${isDragging ? 'border-purple-500 bg-gray-800/50' : 'border-gray-600'}`}
+                >
+                    <p className="text-gray-300 font-semibold">Drop images or a folder here</p>
+                    <div className="mt-3 flex justify-center gap-3 text-sm">
+                        <label className="px-4 py-2 rounded-lg bg-gray-700 hover:bg-gray-600 cursor-pointer transition">
+                            Choose Images
+                            <input type="file" accept="image/*" multiple onChange={handleFileInput} className="hidden" />
+                        </label>
+                        <label className="px-4 py-2 rounded-lg bg-gray-700 hover:bg-gray-600 cursor-pointer transition">
+                            Choose Folder
+                            <input ref={folderInputRef} type="file" multiple onChange={handleFileInput} className="hidden" />
+                        </label>
+                    </div>
                 </div>
-            )}
+
+                {items.length > 0 && (
+                    <div className="bg-gray-800/50 p-4 rounded-xl shadow-lg space-y-4">
+                        <div className="flex flex-wrap items-center gap-3">
+                            <p className="text-sm text-gray-300 mr-auto">
+                                {finished} of {items.length} finished · {counts.done} done · {counts.failed} failed{isPaused ? ' · paused' : ''}
+                            </p>
+                            {failedIds.length > 0 && (
+                                <button onClick={() => handleRetry(failedIds)} className="px-3 py-1.5 text-sm rounded-md bg-gray-700 hover:bg-gray-600 transition">Retry Failed</button>
+                            )}
+                            <button onClick={handleDownloadZip} disabled={counts.done === 0} className="px-3 py-1.5 text-sm rounded-md bg-purple-600 hover:bg-purple-700 transition disabled:bg-gray-600">Download ZIP</button>
+                            <button onClick={handleClear} disabled={counts.running > 0} className="px-3 py-1.5 text-sm rounded-md text-red-400 hover:bg-red-500/10 transition disabled:opacity-40">Clear</button>
+                        </div>
+                        <div className="h-2 bg-gray-700 rounded-full overflow-hidden">
+                            <div className="h-full bg-purple-500 transition-all" style={{ width: `${(finished / items.length) * 100}%` }} />
+                        </div>
+                        <ul className="grid grid-cols-2 md:grid-cols-3 gap-3 max-h-[60vh] overflow-y-auto pr-1">
+                            {items.map(item => (
+                                <li key={item.id} className="bg-gray-700/50 rounded-lg p-2 space-y-2">
+                                    <div className="grid grid-cols-2 gap-1">
+                                        <img src={item.previewUrl} alt={item.file.name} className="w-full aspect-square object-cover rounded" />
+                                        {item.resultUrl
+                                            ? <img src={item.resultUrl} alt={`Edited ${item.file.name}`} className="w-full aspect-square object-cover rounded" />
+                                            : <div className="w-full aspect-square rounded bg-gray-800" />}
+                                    </div>
+                                    <p className="text-xs text-gray-300 truncate" title={item.file.name}>{item.file.name}</p>
+                                    <div className="flex items-center justify-between text-xs">
+                                        <span className={statusStyles[item.status]} title={item.error}>{item.status}</span>
+                                        {item.status === 'failed' && (
+                                            <button onClick={() => handleRetry([item.id])} className="text-purple-300 hover:underline">Retry</button>
+                                        )}
+                                        {item.status !== 'running' && (
+                                            <button onClick={() => handleRemove(item)} className="text-gray-400 hover:text-red-400">Remove</button>
+                                        )}
+                                    </div>
+                                    {item.error && <p className="text-xs text-red-300 line-clamp-2">{item.error}</p>}
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+            </div>
         </div>
     );
 };
 
 const ImageStudio: React.FC = () => {
     const [activeTab, setActiveTab] = useState<ImageStudioTab>('Edit');
+    // Image sent from the Generate tab, waiting to be opened by the editor.
+    const [imageToEdit, setImageToEdit] = useState<File | null>(null);
+
+    const handleSendToEditor = (image: File) => {
+        setImageToEdit(image);
+        setActiveTab('Edit');
+    };
+
     return (
         <div className="space-y-6">
-            <div className="flex justify-center gap-2 p-1 bg-gray-800 rounded-lg max-w-xs mx-auto">
+            <div className="flex justify-center gap-2 p-1 bg-gray-800 rounded-lg max-w-md mx-auto">
                 <button onClick={() => setActiveTab('Edit')} className={`w-full py-2 rounded-md transition ${activeTab === 'Edit' ? 'bg-purple-600' : 'hover:bg-gray-700'}`}>Edit Image</button>
                 <button onClick={() => setActiveTab('Generate')} className={`w-full py-2 rounded-md transition ${activeTab === 'Generate' ? 'bg-purple-600' : 'hover:bg-gray-700'}`}>Generate Image</button>
+                <button onClick={() => setActiveTab('Batch')} className={`w-full py-2 rounded-md transition ${activeTab === 'Batch' ? 'bg-purple-600' : 'hover:bg-gray-700'}`}>Batch Edit</button>
             </div>
-            {activeTab === 'Edit' && <ImageEditStudio />}
-            {activeTab === 'Generate' && <ImageGenerateStudio />}
+            {activeTab === 'Edit' && <ImageEditStudio initialImage={imageToEdit} onInitialImageLoaded={() => setImageToEdit(null)} />}
+            {activeTab === 'Generate' && <ImageGenerateStudio onSendToEditor={handleSendToEditor} />}
+            {activeTab === 'Batch' && <ImageBatchStudio />}
         </div>
     );
 };
 
+const formatElapsed = (ms: number) => {
+    const seconds = Math.floor(ms / 1000);
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const describeVideoProgress = (progress: VideoProgress | undefined) => {
+    if (!progress) return 'Checking on the video...';
+    if (progress.state === 'retrying') {
+        return `Can't reach the video service, retrying in ${Math.round((progress.retryInMs ?? 0) / 1000)}s (${formatElapsed(progress.elapsedMs)} elapsed)`;
+    }
+    return `Generating video... ${formatElapsed(progress.elapsedMs)} elapsed, checked ${progress.polls} ${progress.polls === 1 ? 'time' : 'times'}`;
+};
+
+const toVideoRequest = (job: VideoJob): VideoRequest => ({
+    prompt: job.prompt,
+    model: job.model,
+    aspectRatio: job.aspectRatio,
+    resolution: job.resolution,
+    durationSeconds: job.durationSeconds,
+    negativePrompt: job.negativePrompt,
+    image: job.image,
+    referenceImages: job.referenceImages,
+});
+
 const VideoStudio: React.FC = () => {
     const [prompt, setPrompt] = useState('');
     const [aspectRatio, setAspectRatio] = useState('16:9');
-    const [image, setImage] = useState<File | null>(null);
+    const [model, setModel] = useState(VIDEO_MODELS[0].id);
+    const [resolution, setResolution] = useState<VideoResolution>('720p');
+    const [durationSeconds, setDurationSeconds] = useState(8);
+    const [negativePrompt, setNegativePrompt] = useState('');
+    const [image, setImage] = useState<Base64File | null>(null);
+    const [referenceImages, setReferenceImages] = useState<Base64File[]>([]);
     const [isLoading, setIsLoading] = useState(false);
-    const [loadingMessage, setLoadingMessage] = useState('');
     const [error, setError] = useState<string | null>(null);
-    const [generatedVideo, setGeneratedVideo] = useState<string | null>(null);
     const [apiKeySelected, setApiKeySelected] = useState(false);
+    const [jobs, setJobs] = useState<VideoJob[]>([]);
+    const [activeJobId, setActiveJobId] = useState<string | null>(null);
+    const [progress, setProgress] = useState<Record<string, VideoProgress>>({});
+    // Job ids of the storyboard's shots, in playback order.
+    const [storyboard, setStoryboard] = useState<string[]>(getStoryboard);
+    const [playingIndex, setPlayingIndex] = useState<number | null>(null);
+    const [gallery, setGallery] = useState<GalleryVideo[]>([]);
+    const galleryRef = useRef(gallery);
+    galleryRef.current = gallery;
+    const downloadsRef = useRef(new Map<string, Promise<string>>());
+    const isMountedRef = useRef(true);
 
     useEffect(() => {
         const checkKey = async () => {
@@ -397,37 +1660,298 @@ const VideoStudio: React.FC = () => {
         checkKey();
     }, []);
 
+    useEffect(() => {
+        isMountedRef.current = true;
+        return () => { isMountedRef.current = false; };
+    }, []);
+
+    const handleProgress = (jobId: string) => (update: VideoProgress) => {
+        if (isMountedRef.current) setProgress(prev => ({ ...prev, [jobId]: update }));
+    };
+
+    const handleJobFinished = async (job: VideoJob) => {
+        // A finished job's video is already in the gallery; both update together so it isn't downloaded twice.
+        const videos = job.status === 'succeeded' ? await getGalleryVideos().catch(() => null) : null;
+        if (!isMountedRef.current) return;
+        if (videos) setGallery(videos);
+        setJobs(prev => prev.map(j => (j.id === job.id ? job : j)));
+        if (job.error?.includes("Requested entity was not found")) {
+            setApiKeySelected(false);
+        }
+    };
+
+    // Polls a pending job until it finishes. If its result can't be saved, the job is shown as failed.
+    const followJob = (job: VideoJob) => {
+        trackVideoJob(job, handleProgress(job.id))
+            .then(handleJobFinished)
+            .catch(err => {
+                if (!isMountedRef.current) return;
+                const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+                setJobs(prev => prev.map(j => (j.id === job.id ? { ...j, status: 'failed', error: errorMessage, finishedAt: Date.now() } : j)));
+                setError(`Failed to save video job: ${errorMessage}`);
+            });
+    };
+
+    // Resume polling jobs that were still running when the page was last closed.
+    useEffect(() => {
+        Promise.all([listVideoJobs(), getGalleryVideos()])
+            .then(([saved, videos]) => {
+                if (!isMountedRef.current) return;
+                // Pending jobs that lost contact last time are polled again now, so their error no longer applies.
+                const resumed = saved.map(job => (job.status === 'pending' ? { ...job, error: null } : job));
+                setGallery(videos);
+                setJobs(resumed);
+                setActiveJobId(prev => prev ?? resumed[0]?.id ?? null);
+                resumed.filter(job => job.status === 'pending').forEach(followJob);
+            })
+            .catch(err => console.error("Failed to load video jobs", err));
+    }, []);
+
+    useEffect(() => saveStoryboard(storyboard), [storyboard]);
+
+    const activeJob = jobs.find(job => job.id === activeJobId) ?? null;
+    const videoUrlFor = (id: string) => gallery.find(video => video.id === id)?.videoUrl;
+    const activeVideoUrl = activeJob ? videoUrlFor(activeJob.id) : undefined;
+    // Shots whose job was deleted drop out of the storyboard.
+    const shots = storyboard.map(id => jobs.find(job => job.id === id)).filter((job): job is VideoJob => Boolean(job));
+    const playingShot = playingIndex !== null ? shots[playingIndex] ?? null : null;
+
+    // Resolves with a finished job's saved video. One that isn't in the gallery yet
+    // (e.g. saving failed when it finished) is downloaded and saved first.
+    const loadVideoUrl = (job: VideoJob): Promise<string> => {
+        const saved = galleryRef.current.find(video => video.id === job.id);
+        if (saved) return Promise.resolve(saved.videoUrl);
+        if (!job.videoUri) return Promise.reject(new Error("This video hasn't finished yet."));
+        let download = downloadsRef.current.get(job.id);
+        if (!download) {
+            download = downloadVideo(job.videoUri)
+                .then(blob => addGalleryVideo(job, blob))
+                .then(video => {
+                    if (isMountedRef.current) {
+                        setGallery(prev => [video, ...prev.filter(v => v.id !== video.id)].sort((a, b) => b.createdAt - a.createdAt));
+                    }
+                    return video.videoUrl;
+                })
+                .finally(() => downloadsRef.current.delete(job.id));
+            downloadsRef.current.set(job.id, download);
+        }
+        return download;
+    };
+
+    // Download the selected job's result the first time it is shown.
+    useEffect(() => {
+        if (!activeJob || activeJob.status !== 'succeeded' || videoUrlFor(activeJob.id)) return;
+        let cancelled = false;
+        loadVideoUrl(activeJob)
+            .catch(err => {
+                if (cancelled) return;
+                const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+                setError(`${errorMessage}. Download links expire a couple of days after a video is made.`);
+            });
+        return () => { cancelled = true; };
+    }, [activeJob?.id, activeJob?.status]);
+
+    // Polls a cancelled job, or one that lost contact with the server, again. The operation kept running meanwhile.
+    const handleResumeJob = async (job: VideoJob) => {
+        const resumed: VideoJob = { ...job, status: 'pending', error: null, finishedAt: null };
+        setJobs(prev => prev.map(j => (j.id === job.id ? resumed : j)));
+        setProgress(prev => {
+            const { [job.id]: _stale, ...rest } = prev;
+            return rest;
+        });
+        try {
+            await saveVideoJob(resumed);
+        } catch (err) {
+            console.error("Failed to save video job", err);
+        }
+        followJob(resumed);
+    };
+
     const handleSelectKey = async () => {
         await window.aistudio?.openSelectKey();
         setApiKeySelected(true); // Assume success to avoid race conditions
     };
 
-    const handleGenerate = async () => {
-        if (!prompt.trim() && !image) {
-            setError('Please enter a prompt or upload an image.');
-            return;
-        }
+    // Starts a Veo job from what `prepare` returns, saves it and follows it.
+    // Resolves with the job, or null if it couldn't be started (the error is shown).
+    const runJob = async (prepare: () => Promise<VideoRequest & Pick<VideoJob, 'extendedFrom'>>): Promise<VideoJob | null> => {
         setIsLoading(true);
-        setLoadingMessage('Initializing video generation...');
         setError(null);
-        setGeneratedVideo(null);
 
         try {
-            const imagePayload = image ? await fileToBase64(image) : undefined;
-            const videoUrl = await generateVideo(prompt, aspectRatio, imagePayload);
-            setGeneratedVideo(videoUrl);
+            const details = await prepare();
+            const operationName = await startVideoGeneration(details);
+            const job: VideoJob = {
+                id: operationName,
+                ...details,
+                status: 'pending',
+                videoUri: null,
+                error: null,
+                createdAt: Date.now(),
+                finishedAt: null,
+            };
+            // Saved before polling starts, so the job can be picked up again after a reload.
+            await saveVideoJob(job);
+            setJobs(prev => [job, ...prev]);
+            setActiveJobId(job.id);
+            followJob(job);
+            return job;
         } catch (err) {
             const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
             setError(`Failed to generate video: ${errorMessage}`);
             if(errorMessage.includes("Requested entity was not found")){
                 setApiKeySelected(false);
             }
+            return null;
         } finally {
             setIsLoading(false);
-            setLoadingMessage('');
         }
     };
-    
+
+    const modelInfo = VIDEO_MODELS.find(m => m.id === model) ?? VIDEO_MODELS[0];
+    const request: VideoRequest = { prompt, model, aspectRatio, resolution, durationSeconds, negativePrompt, image, referenceImages };
+    const requestProblem = validateVideoRequest(request);
+
+    const handleImageChange = async (file: File | undefined) => {
+        try {
+            setImage(file ? await fileToBase64(file) : null);
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+            setError(`Failed to read image: ${errorMessage}`);
+        }
+    };
+
+    const handleAddReferenceImages = async (files: FileList | null) => {
+        if (!files) return;
+        try {
+            const added = await Promise.all(Array.from(files).map(fileToBase64));
+            setReferenceImages(prev => [...prev, ...added]);
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+            setError(`Failed to read reference images: ${errorMessage}`);
+        }
+    };
+
+    const handleGenerate = async () => {
+        if (requestProblem) {
+            setError(requestProblem);
+            return;
+        }
+        await runJob(async () => request);
+    };
+
+    // Starts the next shot from the selected video's last frame, using the prompt above.
+    const handleExtend = async () => {
+        if (!activeJob || activeJob.status !== 'succeeded') return;
+        if (!prompt.trim()) {
+            setError('Describe what happens in the next shot.');
+            return;
+        }
+        const source = activeJob;
+        const job = await runJob(async () => ({
+            ...request,
+            aspectRatio: source.aspectRatio,
+            image: await getLastVideoFrame(await loadVideoUrl(source)),
+            // The last frame carries the subject over; references can't be combined with it.
+            referenceImages: [],
+            extendedFrom: source.id,
+        }));
+        if (!job) return;
+        setStoryboard(prev => {
+            const index = prev.indexOf(source.id);
+            return index >= 0
+                ? [...prev.slice(0, index + 1), job.id, ...prev.slice(index + 1)]
+                : [...prev, source.id, job.id];
+        });
+    };
+
+    const handleSelectJob = (id: string) => {
+        setPlayingIndex(null);
+        setActiveJobId(id);
+    };
+
+    const handleAddToStoryboard = (job: VideoJob) => {
+        setStoryboard(prev => (prev.includes(job.id) ? prev : [...prev, job.id]));
+    };
+
+    const handleMoveShot = (index: number, offset: -1 | 1) => {
+        setPlayingIndex(null);
+        const ids = shots.map(shot => shot.id);
+        [ids[index], ids[index + offset]] = [ids[index + offset], ids[index]];
+        setStoryboard(ids);
+    };
+
+    // Makes the shot again with the same prompt. A shot that continued another starts from
+    // whichever shot now comes before it, so the sequence stays continuous after reordering.
+    const handleRegenerateShot = async (shot: VideoJob) => {
+        setPlayingIndex(null);
+        const previous = shots[shots.indexOf(shot) - 1];
+        const job = await runJob(async () => {
+            if (shot.extendedFrom && previous?.status === 'succeeded') {
+                const frame = await getLastVideoFrame(await loadVideoUrl(previous));
+                return { ...toVideoRequest(shot), image: frame, extendedFrom: previous.id };
+            }
+            return { ...toVideoRequest(shot), extendedFrom: shot.extendedFrom };
+        });
+        if (job) setStoryboard(prev => prev.map(id => (id === shot.id ? job.id : id)));
+    };
+
+    const handleRemoveShot = (shot: VideoJob) => {
+        setPlayingIndex(null);
+        setStoryboard(prev => prev.filter(id => id !== shot.id));
+    };
+
+    // Every shot is downloaded first, so playback doesn't stall between them.
+    const handlePlayStoryboard = async () => {
+        setError(null);
+        try {
+            await Promise.all(shots.map(loadVideoUrl));
+            setPlayingIndex(0);
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+            setError(`Couldn't load every shot: ${errorMessage}`);
+        }
+    };
+
+    const handleShotEnded = () => {
+        setPlayingIndex(prev => (prev !== null && prev + 1 < shots.length ? prev + 1 : null));
+    };
+
+    // Removes a job and its saved video; a job still running stops being followed.
+    const handleDelete = async (id: string) => {
+        cancelVideoJob(id);
+        setJobs(prev => prev.filter(j => j.id !== id));
+        setGallery(prev => prev.filter(video => video.id !== id));
+        setStoryboard(prev => prev.filter(shotId => shotId !== id));
+        setPlayingIndex(null);
+        if (activeJobId === id) setActiveJobId(null);
+        try {
+            await Promise.all([deleteVideoJob(id), deleteGalleryVideo(id)]);
+        } catch (err) {
+            console.error("Failed to delete video", err);
+        }
+    };
+
+    const handleDownload = (video: GalleryVideo) => {
+        const link = document.createElement('a');
+        link.download = `video_${video.createdAt}.mp4`;
+        link.href = video.videoUrl;
+        link.click();
+    };
+
+    // Restores the prompt and, when its job is still around, the settings it was made with.
+    const handleReusePrompt = (video: GalleryVideo) => {
+        setPrompt(video.prompt);
+        setAspectRatio(video.aspectRatio);
+        const job = jobs.find(j => j.id === video.id);
+        if (!job) return;
+        setModel(job.model);
+        setResolution(job.resolution);
+        setDurationSeconds(job.durationSeconds);
+        setNegativePrompt(job.negativePrompt);
+        setReferenceImages(job.referenceImages);
+    };
+
     if (!apiKeySelected) {
         return (
             <div className="max-w-2xl mx-auto text-center bg-gray-800/50 p-8 rounded-xl shadow-lg">
@@ -440,28 +1964,167 @@ const VideoStudio: React.FC = () => {
     }
 
     return (
-        <div className="max-w-4xl mx-auto space-y-6">
-            <div className="bg-gray-800/50 p-6 rounded-xl shadow-lg">
-                <h2 className="text-xl font-semibold mb-4 text-purple-300">Video Generation Studio</h2>
-                <div className="space-y-4">
-                    <textarea value={prompt} onChange={e => setPrompt(e.target.value)} placeholder="e.g., A neon hologram of a cat driving at top speed" rows={3} className="w-full bg-gray-700/80 border border-gray-600 rounded-md p-3" disabled={isLoading} />
-                    <input type="file" accept="image/*" onChange={e => setImage(e.target.files ? e.target.files[0] : null)} className="w-full text-sm text-gray-400 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-purple-50 file:text-purple-700 hover:file:bg-purple-100" disabled={isLoading}/>
-                    <select value={aspectRatio} onChange={e => setAspectRatio(e.target.value)} className="w-full bg-gray-700/80 border border-gray-600 rounded-md p-3" disabled={isLoading}>
-                        <option value="16:9">Landscape (16:9)</option>
-                        <option value="9:16">Portrait (9:16)</option>
-                    </select>
-                    <button onClick={handleGenerate} disabled={isLoading} className="w-full bg-purple-600 hover:bg-purple-700 text-white font-bold py-3 rounded-lg transition disabled:bg-gray-600">
-                        {isLoading ? 'Generating...' : 'Generate Video'}
-                    </button>
-                    {error && <ErrorDisplay message={error} />}
+        <div className="max-w-6xl mx-auto grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="lg:col-span-2 space-y-6">
+                <div className="bg-gray-800/50 p-6 rounded-xl shadow-lg">
+                    <h2 className="text-xl font-semibold mb-4 text-purple-300">Video Generation Studio</h2>
+                    <div className="space-y-4">
+                        <textarea value={prompt} onChange={e => setPrompt(e.target.value)} placeholder="e.g., A neon hologram of a cat driving at top speed" rows={3} className="w-full bg-gray-700/80 border border-gray-600 rounded-md p-3" disabled={isLoading} />
+                        <input
+                            value={negativePrompt}
+                            onChange={e => setNegativePrompt(e.target.value)}
+                            placeholder="Negative prompt, e.g. text overlays, shaky camera"
+                            className="w-full bg-gray-700/80 border border-gray-600 rounded-md p-3"
+                            disabled={isLoading}
+                        />
+                        <div>
+                            <p className="text-sm text-gray-400 mb-2">Starting frame</p>
+                            <input type="file" accept="image/*" onChange={e => handleImageChange(e.target.files?.[0])} className="w-full text-sm text-gray-400 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-purple-50 file:text-purple-700 hover:file:bg-purple-100" disabled={isLoading}/>
+                        </div>
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                            <select value={model} onChange={e => setModel(e.target.value)} className="bg-gray-700/80 border border-gray-600 rounded-md p-3" disabled={isLoading}>
+                                {VIDEO_MODELS.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+                            </select>
+                            <select value={aspectRatio} onChange={e => setAspectRatio(e.target.value)} className="bg-gray-700/80 border border-gray-600 rounded-md p-3" disabled={isLoading}>
+                                {modelInfo.aspectRatios.map(ratio => (
+                                    <option key={ratio} value={ratio}>{ratio === '16:9' ? 'Landscape (16:9)' : ratio === '9:16' ? 'Portrait (9:16)' : ratio}</option>
+                                ))}
+                            </select>
+                            <select value={resolution} onChange={e => setResolution(e.target.value as VideoResolution)} className="bg-gray-700/80 border border-gray-600 rounded-md p-3" disabled={isLoading}>
+                                {modelInfo.resolutions.map(r => <option key={r} value={r}>{r}</option>)}
+                            </select>
+                            <select value={durationSeconds} onChange={e => setDurationSeconds(Number(e.target.value))} className="bg-gray-700/80 border border-gray-600 rounded-md p-3" disabled={isLoading}>
+                                {modelInfo.durations.map(d => <option key={d} value={d}>{d} seconds</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <p className="text-sm text-gray-400 mb-2">
+                                Reference images {modelInfo.maxReferenceImages > 0
+                                    ? `(up to ${modelInfo.maxReferenceImages}, keep a subject consistent)`
+                                    : `(not supported by ${modelInfo.label})`}
+                            </p>
+                            <div className="flex flex-wrap gap-2 items-center">
+                                {referenceImages.map((ref, index) => (
+                                    <div key={index} className="relative">
+                                        <img src={`data:${ref.mimeType};base64,${ref.base64}`} alt={`Reference ${index + 1}`} className="w-16 h-16 rounded-md object-cover" />
+                                        <button
+                                            onClick={() => setReferenceImages(prev => prev.filter((_, i) => i !== index))}
+                                            className="absolute -top-1 -right-1 w-5 h-5 rounded-full bg-gray-900 text-red-400 text-xs hover:bg-red-500/30"
+                                            aria-label="Remove reference image"
+                                            disabled={isLoading}
+                                        >
+                                            ✕
+                                        </button>
+                                    </div>
+                                ))}
+                                <label className={`w-16 h-16 rounded-md border-2 border-dashed border-gray-600 flex items-center justify-center text-gray-500 text-2xl ${isLoading || modelInfo.maxReferenceImages === 0 ? 'opacity-50' : 'cursor-pointer hover:border-purple-500 hover:text-purple-300'}`}>
+                                    +
+                                    <input
+                                        type="file"
+                                        accept="image/*"
+                                        multiple
+                                        className="hidden"
+                                        onChange={e => {
+                                            handleAddReferenceImages(e.target.files);
+                                            e.target.value = '';
+                                        }}
+                                        disabled={isLoading || modelInfo.maxReferenceImages === 0}
+                                    />
+                                </label>
+                            </div>
+                        </div>
+                        {requestProblem && (prompt.trim() || image) && <p className="text-sm text-yellow-300">{requestProblem}</p>}
+                        <button onClick={handleGenerate} disabled={isLoading || Boolean(requestProblem)} className="w-full bg-purple-600 hover:bg-purple-700 text-white font-bold py-3 rounded-lg transition disabled:bg-gray-600">
+                            {isLoading ? 'Starting...' : 'Generate Video'}
+                        </button>
+                        {error && <ErrorDisplay message={error} />}
+                    </div>
                 </div>
+                {playingShot ? (
+                    <div className="bg-gray-800/50 p-6 rounded-xl shadow-lg flex flex-col justify-center items-center gap-3">
+                        <video key={playingShot.id} src={videoUrlFor(playingShot.id)} autoPlay controls onEnded={handleShotEnded} className="max-w-full rounded-lg" />
+                        <p className="text-sm text-gray-400 text-center">Shot {playingIndex! + 1} of {shots.length}: {playingShot.prompt}</p>
+                    </div>
+                ) : activeJob && (
+                    <div className="bg-gray-800/50 p-6 rounded-xl shadow-lg flex flex-col justify-center items-center gap-3">
+                        {activeJob.status === 'pending' && activeJob.error && (
+                            <>
+                                <ErrorDisplay message={`${activeJob.error} The video is still being made on the server.`} />
+                                <button onClick={() => handleResumeJob(activeJob)} className="px-4 py-1.5 text-sm rounded-lg bg-purple-600 hover:bg-purple-700 text-white font-semibold transition">
+                                    Resume
+                                </button>
+                            </>
+                        )}
+                        {activeJob.status === 'pending' && !activeJob.error && (
+                            <>
+                                <LoadingSpinner text={describeVideoProgress(progress[activeJob.id])} />
+                                <button onClick={() => cancelVideoJob(activeJob.id)} className="px-4 py-1.5 text-sm rounded-lg bg-gray-700 text-gray-300 hover:bg-gray-600 transition">
+                                    Cancel
+                                </button>
+                            </>
+                        )}
+                        {activeJob.status === 'cancelled' && (
+                            <>
+                                <p className="text-gray-400">Stopped waiting for this video.</p>
+                                <button onClick={() => handleResumeJob(activeJob)} className="px-4 py-1.5 text-sm rounded-lg bg-gray-700 text-gray-300 hover:bg-gray-600 transition">
+                                    Resume
+                                </button>
+                            </>
+                        )}
+                        {activeJob.status === 'failed' && <ErrorDisplay message={`Video generation failed: ${activeJob.error}`} />}
+                        {activeJob.status === 'succeeded' && (activeVideoUrl
+                            ? <video src={activeVideoUrl} controls className="max-w-full rounded-lg" />
+                            : <LoadingSpinner text="Downloading video..." />)}
+                        <p className="text-sm text-gray-400 text-center">{activeJob.prompt}</p>
+                        {activeJob.status === 'succeeded' && activeVideoUrl && (
+                            <div className="flex gap-2">
+                                <button
+                                    onClick={handleExtend}
+                                    disabled={isLoading}
+                                    title="Start a new shot from this video's last frame, using the prompt above"
+                                    className="px-4 py-1.5 text-sm rounded-lg bg-purple-600 hover:bg-purple-700 text-white font-semibold transition disabled:bg-gray-600"
+                                >
+                                    Extend
+                                </button>
+                                {!storyboard.includes(activeJob.id) && (
+                                    <button onClick={() => handleAddToStoryboard(activeJob)} className="px-4 py-1.5 text-sm rounded-lg bg-gray-700 text-gray-300 hover:bg-gray-600 transition">
+                                        Add to storyboard
+                                    </button>
+                                )}
+                            </div>
+                        )}
+                    </div>
+                )}
+                <Storyboard
+                    shots={shots}
+                    activeJobId={activeJobId}
+                    playingJobId={playingShot?.id ?? null}
+                    isBusy={isLoading}
+                    onSelect={job => handleSelectJob(job.id)}
+                    onMove={handleMoveShot}
+                    onRegenerate={handleRegenerateShot}
+                    onRemove={handleRemoveShot}
+                    onPlay={handlePlayStoryboard}
+                    onStop={() => setPlayingIndex(null)}
+                />
+            </div>
+            <div className="space-y-6">
+                <VideoGallery
+                    videos={gallery}
+                    activeVideoId={activeJobId}
+                    onPlay={video => handleSelectJob(video.id)}
+                    onDownload={handleDownload}
+                    onReusePrompt={handleReusePrompt}
+                    onDelete={video => handleDelete(video.id)}
+                />
+                {/* Finished jobs are listed in the gallery once their video is saved. */}
+                <VideoJobsList
+                    jobs={jobs.filter(job => !gallery.some(video => video.id === job.id))}
+                    activeJobId={activeJobId}
+                    onSelect={job => handleSelectJob(job.id)}
+                    onDelete={job => handleDelete(job.id)}
+                />
             </div>
-            {(isLoading || generatedVideo) && (
-                <div className="bg-gray-800/50 p-6 rounded-xl shadow-lg flex justify-center items-center">
-                    {isLoading && <LoadingSpinner text="Generating video... this may take a few minutes." />}
-                    {generatedVideo && <video src={generatedVideo} controls className="max-w-full rounded-lg" />}
-                </div>
-            )}
         </div>
     );
 };
@@ -771,7 +2434,7 @@ const VisionStudio: React.FC = () => {
             {analysis && (
                  <div className="bg-gray-800/50 p-6 rounded-xl shadow-lg">
                      <h3 className="font-semibold mb-2 text-purple-300">Analysis Result:</h3>
-                     <p className="whitespace-pre-wrap">{analysis}</p>
+                     <MarkdownRenderer text={analysis} />
                  </div>
             )}
         </div>
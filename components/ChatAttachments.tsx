@@ -0,0 +1,66 @@
+import React from 'react';
+import type { ChatAttachment } from '../types';
+import { fileToBase64, formatBytes } from '../utils/fileUtils';
+
+interface ChatAttachmentsProps {
+  attachments: ChatAttachment[];
+  // Shows a remove button on each attachment when given.
+  onRemove?: (index: number) => void;
+}
+
+export const ATTACHMENT_ACCEPT = 'image/*,application/pdf,text/*,.md,.csv,.json,.txt';
+
+// Inline data shares the request size limit with the rest of the conversation, so keep turns small.
+export const MAX_ATTACHMENT_BYTES = 15 * 1024 * 1024;
+
+const TEXT_EXTENSIONS = /\.(txt|md|markdown|csv|json|xml|html?|css|js|ts|tsx|py|log|ya?ml)$/i;
+
+export const isSupportedAttachment = (file: File): boolean =>
+  file.type.startsWith('image/') || file.type === 'application/pdf' || file.type.startsWith('text/')
+  || file.type === 'application/json' || TEXT_EXTENSIONS.test(file.name);
+
+export const createChatAttachment = async (file: File): Promise<ChatAttachment> => {
+  const { base64 } = await fileToBase64(file);
+  // Text formats the API doesn't know by name are sent as plain text.
+  const mimeType = file.type.startsWith('image/') || file.type === 'application/pdf' ? file.type : 'text/plain';
+  return { base64, mimeType, name: file.name, size: file.size };
+};
+
+const ChatAttachments: React.FC<ChatAttachmentsProps> = ({ attachments, onRemove }) => {
+  if (attachments.length === 0) return null;
+  return (
+    <div className="flex flex-wrap gap-2 mb-2">
+      {attachments.map((attachment, index) => (
+        <div key={`${attachment.name}-${index}`} className="relative group">
+          {attachment.mimeType.startsWith('image/') ? (
+            <img
+              src={`data:${attachment.mimeType};base64,${attachment.base64}`}
+              alt={attachment.name}
+              title={attachment.name}
+              className="w-20 h-20 object-cover rounded-md ring-1 ring-gray-600"
+            />
+          ) : (
+            <div className="flex items-center gap-2 px-3 py-2 rounded-md bg-gray-800/70 ring-1 ring-gray-600 max-w-[14rem]" title={attachment.name}>
+              <span className="text-xs font-bold text-purple-300">{attachment.mimeType === 'application/pdf' ? 'PDF' : 'TXT'}</span>
+              <div className="min-w-0">
+                <p className="text-xs text-gray-200 truncate">{attachment.name}</p>
+                <p className="text-[10px] text-gray-500">{formatBytes(attachment.size)}</p>
+              </div>
+            </div>
+          )}
+          {onRemove && (
+            <button
+              onClick={() => onRemove(index)}
+              className="absolute -top-2 -right-2 w-5 h-5 rounded-full bg-gray-900 text-gray-300 hover:text-white text-xs ring-1 ring-gray-600"
+              aria-label={`Remove ${attachment.name}`}
+            >
+              ✕
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ChatAttachments;
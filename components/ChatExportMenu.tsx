@@ -0,0 +1,62 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { ChatExportFormat } from '../services/chatExportService';
+
+interface ChatExportMenuProps {
+  onExport: (format: ChatExportFormat) => void;
+  disabled?: boolean;
+}
+
+const OPTIONS: { format: ChatExportFormat; label: string; description: string }[] = [
+  { format: 'markdown', label: 'Markdown', description: 'For tickets and docs; sources become footnotes' },
+  { format: 'html', label: 'HTML', description: 'A single page that opens in any browser' },
+  { format: 'json', label: 'JSON', description: 'Everything, to import and continue later' },
+];
+
+const ChatExportMenu: React.FC<ChatExportMenuProps> = ({ onExport, disabled = false }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere outside the menu.
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className="px-3 py-2 text-sm rounded-md bg-gray-700 text-gray-300 hover:bg-gray-600 transition disabled:opacity-40 disabled:cursor-not-allowed"
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+      >
+        Export
+      </button>
+      {isOpen && (
+        <div role="menu" className="absolute right-0 mt-1 w-64 z-20 bg-gray-800 border border-gray-600 rounded-lg shadow-xl py-1">
+          {OPTIONS.map(option => (
+            <button
+              key={option.format}
+              role="menuitem"
+              onClick={() => {
+                setIsOpen(false);
+                onExport(option.format);
+              }}
+              className="w-full text-left px-3 py-2 hover:bg-gray-700 transition"
+            >
+              <p className="text-sm text-gray-200">{option.label}</p>
+              <p className="text-xs text-gray-500">{option.description}</p>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChatExportMenu;
@@ -0,0 +1,144 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { Conversation, ConversationSearchResult } from '../types';
+import { searchConversations } from '../services/conversationService';
+
+interface ChatSidebarProps {
+  conversations: Conversation[];
+  activeId: string | null;
+  onSelect: (id: string) => void;
+  onNew: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+  // Receives a chat exported as JSON.
+  onImport: (file: File) => void;
+  disabled?: boolean;
+}
+
+const SEARCH_DEBOUNCE_MS = 200;
+
+const ChatSidebar: React.FC<ChatSidebarProps> = ({ conversations, activeId, onSelect, onNew, onRename, onDelete, onImport, disabled = false }) => {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<ConversationSearchResult[] | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  // Re-run the search when the query changes or a conversation is saved.
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults(null);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      searchConversations(query)
+        .then(found => { if (!cancelled) setResults(found); })
+        .catch(err => console.error("Failed to search conversations", err));
+    }, SEARCH_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, conversations]);
+
+  const startRename = (conversation: Conversation) => {
+    setEditingId(conversation.id);
+    setDraftTitle(conversation.title);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftTitle.trim()) {
+      onRename(editingId, draftTitle.trim());
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = (conversation: Conversation) => {
+    if (window.confirm(`Delete "${conversation.title}"?`)) {
+      onDelete(conversation.id);
+    }
+  };
+
+  const handleImportChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onImport(file);
+  };
+
+  const items = results ?? conversations.map(conversation => ({ conversation, snippet: '' }));
+
+  return (
+    <aside className="w-64 flex-shrink-0 bg-gray-800/50 rounded-xl shadow-lg p-3 flex flex-col">
+      <div className="flex gap-2 mb-3">
+        <button
+          onClick={onNew}
+          disabled={disabled}
+          className="flex-grow bg-purple-600 hover:bg-purple-700 text-white text-sm font-semibold py-2 rounded-lg transition disabled:bg-gray-600"
+        >
+          New Chat
+        </button>
+        <button
+          onClick={() => importInputRef.current?.click()}
+          disabled={disabled}
+          className="px-3 bg-gray-700 hover:bg-gray-600 text-gray-300 text-sm py-2 rounded-lg transition disabled:opacity-40"
+          title="Import a chat exported as JSON"
+        >
+          Import
+        </button>
+        <input ref={importInputRef} type="file" accept="application/json,.json" onChange={handleImportChange} className="hidden" />
+      </div>
+      <input
+        type="search"
+        value={query}
+        onChange={e => setQuery(e.target.value)}
+        placeholder="Search all chats..."
+        className="w-full mb-3 bg-gray-700/80 border border-gray-600 rounded-md p-2 text-sm focus:ring-2 focus:ring-purple-500"
+      />
+      <ul className="flex-grow overflow-y-auto space-y-1 pr-1">
+        {items.length === 0 && (
+          <li className="text-xs text-gray-500 italic p-2">{results ? 'No chats match your search.' : 'Your chats will appear here.'}</li>
+        )}
+        {items.map(({ conversation, snippet }) => (
+          <li
+            key={conversation.id}
+            className={`group rounded-lg ${conversation.id === activeId ? 'bg-purple-600/30 ring-1 ring-purple-500' : 'hover:bg-gray-700/50'}`}
+          >
+            {editingId === conversation.id ? (
+              <input
+                autoFocus
+                value={draftTitle}
+                onChange={e => setDraftTitle(e.target.value)}
+                onBlur={commitRename}
+                onKeyDown={e => {
+                  if (e.key === 'Enter') commitRename();
+                  if (e.key === 'Escape') setEditingId(null);
+                }}
+                className="w-full bg-gray-700 border border-purple-500 rounded-md p-2 text-sm"
+                aria-label="Chat title"
+              />
+            ) : (
+              <div className="flex items-start gap-1 p-2">
+                <button
+                  onClick={() => onSelect(conversation.id)}
+                  disabled={disabled}
+                  className="flex-grow min-w-0 text-left disabled:cursor-not-allowed"
+                >
+                  <p className="text-sm text-gray-200 truncate">{conversation.title}</p>
+                  <p className="text-xs text-gray-500 truncate">
+                    {snippet || new Date(conversation.updatedAt).toLocaleString()}
+                  </p>
+                </button>
+                <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button onClick={() => startRename(conversation)} className="p-1 text-xs text-gray-400 hover:text-white" aria-label={`Rename ${conversation.title}`} title="Rename">✎</button>
+                  <button onClick={() => handleDelete(conversation)} disabled={disabled} className="p-1 text-xs text-red-400 hover:text-red-300" aria-label={`Delete ${conversation.title}`} title="Delete">✕</button>
+                </div>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </aside>
+  );
+};
+
+export default ChatSidebar;
@@ -0,0 +1,71 @@
+import React from 'react';
+import type { ChatMode, ComparisonAnswer } from '../types';
+import MarkdownRenderer from './MarkdownRenderer';
+import ToolCallSteps from './ToolCallSteps';
+import GroundingSources from './GroundingSources';
+import { insertCitations } from '../utils/citationUtils';
+
+interface ComparisonViewProps {
+  answers: ComparisonAnswer[];
+  modeNames: Record<ChatMode, string>;
+  // True while any answer is still streaming; picking waits until all are done.
+  isLoading: boolean;
+  onPick: (index: number) => void;
+  onDiscard: () => void;
+}
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+const AnswerStats: React.FC<{ answer: ComparisonAnswer }> = ({ answer }) => {
+  const usage = answer.result?.usage;
+  const stats = [
+    answer.firstTokenMs !== null && `first token ${formatSeconds(answer.firstTokenMs)}`,
+    answer.totalMs !== null && `total ${formatSeconds(answer.totalMs)}`,
+    usage && `${usage.inputTokens.toLocaleString()} in / ${usage.outputTokens.toLocaleString()} out`,
+    usage && usage.thinkingTokens > 0 && `${usage.thinkingTokens.toLocaleString()} thinking`,
+  ].filter(Boolean);
+  return <p className="text-[11px] text-gray-500">{stats.length > 0 ? stats.join(' · ') : 'Waiting…'}</p>;
+};
+
+/** Answers to the same prompt from several chat modes, side by side, so one can be kept. */
+const ComparisonView: React.FC<ComparisonViewProps> = ({ answers, modeNames, isLoading, onPick, onDiscard }) => (
+  <div className="animate-fade-in-slide-up">
+    <div className="flex items-center justify-between mb-2">
+      <h3 className="text-sm font-semibold text-purple-300">Pick the answer to continue with</h3>
+      <button onClick={onDiscard} className="text-xs text-gray-400 hover:text-white">
+        {isLoading ? 'Stop and discard' : 'Discard'}
+      </button>
+    </div>
+    <div className={`grid gap-3 ${answers.length === 3 ? 'md:grid-cols-3' : 'md:grid-cols-2'}`}>
+      {answers.map((answer, index) => {
+        const result = answer.result;
+        const isStreaming = !result && !answer.error;
+        return (
+          <div key={answer.mode} className="min-w-0 flex flex-col rounded-lg bg-gray-700 p-3">
+            <div className="mb-2 border-b border-gray-600 pb-2">
+              <p className="text-sm font-semibold text-gray-200">{modeNames[answer.mode]}</p>
+              <AnswerStats answer={answer} />
+            </div>
+            <div className="flex-grow min-w-0">
+              {result?.toolCalls.length ? <ToolCallSteps toolCalls={result.toolCalls} /> : null}
+              {answer.error
+                ? <p className="text-sm text-red-400">{answer.error}</p>
+                : <MarkdownRenderer text={result ? insertCitations(result.text, result.citations, result.groundingChunks) : answer.text} />}
+              {isStreaming && !answer.text && <p className="text-xs text-gray-500 italic">Thinking…</p>}
+              {result && <GroundingSources chunks={result.groundingChunks} />}
+            </div>
+            <button
+              onClick={() => onPick(index)}
+              disabled={isLoading || !result?.text}
+              className="mt-3 w-full bg-purple-600 hover:bg-purple-700 text-white text-sm font-semibold py-2 rounded-lg transition disabled:bg-gray-600 disabled:cursor-not-allowed"
+            >
+              Use this answer
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  </div>
+);
+
+export default ComparisonView;
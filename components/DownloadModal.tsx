@@ -1,60 +1,100 @@
-import React, { useEffect, useCallback } from 'react';
+import React, { useEffect, useCallback, useState } from 'react';
+import { canEncode, loadImage, renderForExport } from '../utils/imageUtils';
+import { embedMetadata, supportsMetadata } from '../utils/imageMetadata';
+import type { ExportMetadata } from '../utils/imageMetadata';
 
 interface DownloadModalProps {
   isOpen: boolean;
   onClose: () => void;
   imageUrl: string;
   fileName: string;
+  // Prompt and model details that can be written into the exported file.
+  metadata?: ExportMetadata;
 }
 
-const DownloadModal: React.FC<DownloadModalProps> = ({ isOpen, onClose, imageUrl, fileName }) => {
-  const handleDownload = useCallback((format: 'png' | 'jpeg') => {
-    if (!imageUrl) return;
+type ExportFormat = 'png' | 'jpeg' | 'webp' | 'avif';
 
-    const download = (url: string, extension: string) => {
+const FORMATS: { id: ExportFormat; label: string; mimeType: string; extension: string; lossy: boolean }[] = [
+  { id: 'png', label: 'PNG', mimeType: 'image/png', extension: 'png', lossy: false },
+  { id: 'jpeg', label: 'JPG', mimeType: 'image/jpeg', extension: 'jpg', lossy: true },
+  { id: 'webp', label: 'WebP', mimeType: 'image/webp', extension: 'webp', lossy: true },
+  { id: 'avif', label: 'AVIF', mimeType: 'image/avif', extension: 'avif', lossy: true },
+];
+
+const WIDTH_PRESETS = [2048, 1080, 512];
+
+const DownloadModal: React.FC<DownloadModalProps> = ({ isOpen, onClose, imageUrl, fileName, metadata }) => {
+  const [format, setFormat] = useState<ExportFormat>('png');
+  const [quality, setQuality] = useState(90);
+  const [width, setWidth] = useState<number | null>(null); // null keeps the original width
+  const [customWidth, setCustomWidth] = useState('');
+  const [isCustomWidth, setIsCustomWidth] = useState(false);
+  const [fillBackground, setFillBackground] = useState(false);
+  const [background, setBackground] = useState('#ffffff');
+  const [embedPrompt, setEmbedPrompt] = useState(true);
+  const [supported, setSupported] = useState<Record<ExportFormat, boolean>>({ png: true, jpeg: true, webp: false, avif: false });
+  const [naturalSize, setNaturalSize] = useState<{ width: number; height: number } | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selectedFormat = FORMATS.find(f => f.id === format)!;
+  // JPEG has no alpha channel, so it always gets a background.
+  const needsBackground = format === 'jpeg' || fillBackground;
+  const canEmbed = !!metadata && supportsMetadata(selectedFormat.mimeType);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    Promise.all([canEncode('image/webp'), canEncode('image/avif')]).then(([webp, avif]) => {
+      if (!cancelled) setSupported({ png: true, jpeg: true, webp, avif });
+    });
+    loadImage(imageUrl)
+      .then(img => { if (!cancelled) setNaturalSize({ width: img.naturalWidth, height: img.naturalHeight }); })
+      .catch(() => { if (!cancelled) setNaturalSize(null); });
+    return () => { cancelled = true; };
+  }, [isOpen, imageUrl]);
+
+  const targetWidth = isCustomWidth ? (parseInt(customWidth, 10) || null) : width;
+  const outputSize = naturalSize && {
+    width: targetWidth ?? naturalSize.width,
+    height: Math.round(naturalSize.height * ((targetWidth ?? naturalSize.width) / naturalSize.width)),
+  };
+  const widthError = isCustomWidth && (!targetWidth || targetWidth < 16 || targetWidth > 8192)
+    ? 'Width must be between 16 and 8192 pixels.'
+    : null;
+
+  const handleDownload = useCallback(async () => {
+    if (!imageUrl || widthError) return;
+    setIsExporting(true);
+    setError(null);
+    try {
+      const rendered = await renderForExport(imageUrl, {
+        mimeType: selectedFormat.mimeType,
+        quality: quality / 100,
+        width: targetWidth,
+        background: needsBackground ? background : null,
+      });
+      const blob = canEmbed && embedPrompt && metadata
+        ? await embedMetadata(rendered.blob, metadata, rendered.width, rendered.height)
+        : rendered.blob;
+
+      const url = URL.createObjectURL(blob);
       const link = document.createElement('a');
       const baseName = fileName.substring(0, fileName.lastIndexOf('.')) || fileName;
-      link.download = `edited_${baseName}.${extension}`;
+      link.download = `edited_${baseName}.${selectedFormat.extension}`;
       link.href = url;
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
+      URL.revokeObjectURL(url);
       onClose();
-    };
-
-    if (format === 'png') {
-      // The source is already a data URL, suitable for PNG download
-      download(imageUrl, 'png');
-    } else {
-      const img = new Image();
-      img.onload = () => {
-        const canvas = document.createElement('canvas');
-        canvas.width = img.width;
-        canvas.height = img.height;
-        const ctx = canvas.getContext('2d');
-        if (!ctx) {
-          console.error("Could not get canvas context for image conversion.");
-          onClose();
-          return;
-        }
-        
-        // Fill background with white for JPG format to handle transparency from PNGs
-        ctx.fillStyle = 'white';
-        ctx.fillRect(0, 0, canvas.width, canvas.height);
-        ctx.drawImage(img, 0, 0);
-        
-        // Get data URL as JPEG with 90% quality
-        const jpegUrl = canvas.toDataURL('image/jpeg', 0.9);
-        download(jpegUrl, 'jpg');
-      };
-      img.onerror = () => {
-        console.error("Failed to load image for conversion.");
-        onClose();
-      };
-      img.src = imageUrl;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+    } finally {
+      setIsExporting(false);
     }
-  }, [imageUrl, fileName, onClose]);
-  
+  }, [imageUrl, fileName, onClose, selectedFormat, quality, targetWidth, needsBackground, background, canEmbed, embedPrompt, metadata, widthError]);
+
   // Handle Escape key to close the modal
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
@@ -72,31 +112,139 @@ const DownloadModal: React.FC<DownloadModalProps> = ({ isOpen, onClose, imageUrl
 
   if (!isOpen) return null;
 
+  const optionButton = (active: boolean) =>
+    `px-3 py-1.5 text-sm rounded-md transition disabled:opacity-40 disabled:cursor-not-allowed ${active ? 'bg-purple-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`;
+
   return (
-    <div 
+    <div
         className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 transition-opacity animate-[fade-in_0.2s_ease-out]"
         onClick={onClose}
         role="dialog"
         aria-modal="true"
         aria-labelledby="download-modal-title"
     >
-      <div 
-        className="bg-gray-800 rounded-xl shadow-2xl p-8 w-full max-w-sm transform transition-all relative"
+      <div
+        className="bg-gray-800 rounded-xl shadow-2xl p-8 w-full max-w-md max-h-[90vh] overflow-y-auto transform transition-all relative"
         onClick={e => e.stopPropagation()} // Prevent click inside modal from closing it
       >
-        <h2 id="download-modal-title" className="text-2xl font-bold text-center mb-6 text-purple-300">Choose Format</h2>
-        <div className="flex flex-col gap-4">
-          <button
-            onClick={() => handleDownload('png')}
-            className="w-full bg-purple-600 hover:bg-purple-700 text-white font-bold py-3 px-6 rounded-lg transition-all duration-200 transform hover:scale-105"
-          >
-            Download as PNG
-          </button>
+        <h2 id="download-modal-title" className="text-2xl font-bold text-center mb-6 text-purple-300">Export Image</h2>
+        <div className="space-y-5">
+          <div>
+            <p className="text-sm font-semibold text-gray-300 mb-2">Format</p>
+            <div className="flex flex-wrap gap-2">
+              {FORMATS.map(f => (
+                <button
+                  key={f.id}
+                  onClick={() => setFormat(f.id)}
+                  disabled={!supported[f.id]}
+                  className={optionButton(format === f.id)}
+                  title={supported[f.id] ? undefined : `This browser cannot encode ${f.label}`}
+                >
+                  {f.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="export-quality" className="flex justify-between text-sm font-semibold text-gray-300 mb-2">
+              <span>Quality</span>
+              <span className="text-gray-400 font-normal">{selectedFormat.lossy ? `${quality}%` : 'Lossless'}</span>
+            </label>
+            <input
+              id="export-quality"
+              type="range"
+              min={10}
+              max={100}
+              value={quality}
+              onChange={e => setQuality(Number(e.target.value))}
+              disabled={!selectedFormat.lossy}
+              className="w-full accent-purple-500 disabled:opacity-40"
+            />
+          </div>
+
+          <div>
+            <p className="text-sm font-semibold text-gray-300 mb-2">Width</p>
+            <div className="flex flex-wrap gap-2">
+              <button onClick={() => { setWidth(null); setIsCustomWidth(false); }} className={optionButton(!isCustomWidth && width === null)}>
+                Original
+              </button>
+              {WIDTH_PRESETS.map(preset => (
+                <button
+                  key={preset}
+                  onClick={() => { setWidth(preset); setIsCustomWidth(false); }}
+                  className={optionButton(!isCustomWidth && width === preset)}
+                >
+                  {preset}px
+                </button>
+              ))}
+              <button onClick={() => setIsCustomWidth(true)} className={optionButton(isCustomWidth)}>Custom</button>
+            </div>
+            {isCustomWidth && (
+              <input
+                type="number"
+                min={16}
+                max={8192}
+                value={customWidth}
+                onChange={e => setCustomWidth(e.target.value)}
+                placeholder="Width in pixels"
+                className="mt-2 w-full bg-gray-700/80 border border-gray-600 rounded-md p-2 text-sm focus:ring-2 focus:ring-purple-500"
+              />
+            )}
+            {widthError
+              ? <p className="mt-1 text-xs text-red-400">{widthError}</p>
+              : outputSize && <p className="mt-1 text-xs text-gray-500">Output: {outputSize.width} × {outputSize.height}px, aspect ratio kept.</p>}
+          </div>
+
+          <div>
+            <p className="text-sm font-semibold text-gray-300 mb-2">Background</p>
+            <div className="flex items-center gap-3">
+              <label className="flex items-center gap-2 text-sm text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={needsBackground}
+                  onChange={e => setFillBackground(e.target.checked)}
+                  disabled={format === 'jpeg'}
+                  className="accent-purple-500"
+                />
+                Fill transparent areas
+              </label>
+              <input
+                type="color"
+                value={background}
+                onChange={e => setBackground(e.target.value)}
+                disabled={!needsBackground}
+                className="w-8 h-8 bg-transparent rounded cursor-pointer disabled:opacity-40"
+                aria-label="Background color"
+              />
+            </div>
+            {format === 'jpeg' && <p className="mt-1 text-xs text-gray-500">JPG has no transparency, so a background is always used.</p>}
+          </div>
+
+          {metadata && (
+            <div>
+              <label className="flex items-center gap-2 text-sm text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={canEmbed && embedPrompt}
+                  onChange={e => setEmbedPrompt(e.target.checked)}
+                  disabled={!canEmbed}
+                  className="accent-purple-500"
+                />
+                Embed prompt, style and model in the file
+              </label>
+              {!canEmbed && <p className="mt-1 text-xs text-gray-500">{selectedFormat.label} files can't carry metadata here.</p>}
+            </div>
+          )}
+
+          {error && <p className="text-sm bg-red-900/50 border border-red-700 text-red-300 p-3 rounded-md">{error}</p>}
+
           <button
-            onClick={() => handleDownload('jpeg')}
-            className="w-full bg-pink-600 hover:bg-pink-700 text-white font-bold py-3 px-6 rounded-lg transition-all duration-200 transform hover:scale-105"
+            onClick={handleDownload}
+            disabled={isExporting || !!widthError}
+            className="w-full bg-purple-600 hover:bg-purple-700 text-white font-bold py-3 px-6 rounded-lg transition-all duration-200 transform hover:scale-105 disabled:bg-gray-600 disabled:cursor-not-allowed disabled:scale-100"
           >
-            Download as JPG
+            {isExporting ? 'Exporting...' : `Download ${selectedFormat.label}`}
           </button>
         </div>
         <button
@@ -1,11 +1,23 @@
-import React, { useMemo, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import ImageDisplay from './ImageDisplay';
 import LoadingSpinner from './LoadingSpinner';
 import IconButton from './IconButton';
 import HistoryPanel from './HistoryPanel';
 import DownloadModal from './DownloadModal';
 import StyleFilters from './StyleFilters'; // Import the new component
-import type { HistoryEntry } from '../types';
+import MaskEditor from './MaskEditor';
+import ReferenceImagesPanel from './ReferenceImagesPanel';
+import ImageCompare from './ImageCompare';
+import ExpandCanvasPanel from './ExpandCanvasPanel';
+import MarkdownRenderer from './MarkdownRenderer';
+import { FIT_VIEW, ViewTransform } from './ZoomPanViewport';
+import type { CanvasPadding, HistoryEntry, HistoryStorageUsage, ReferenceImage } from '../types';
+import type { ExportMetadata } from '../utils/imageMetadata';
+import { IMAGE_EDIT_MODEL } from '../services/geminiService';
+import { loadImage } from '../utils/imageUtils';
+
+// Aspect ratios closer than this count as the same shape; models may return a slightly different size.
+const ASPECT_RATIO_TOLERANCE = 0.01;
 
 interface EditorViewProps {
   originalImage: File;
@@ -16,14 +28,22 @@ interface EditorViewProps {
   error: string | null;
   aiTextResponse: string | null;
   onGenerate: () => void;
+  onExpand: (padding: CanvasPadding, note: string) => void;
   onReset: () => void;
   history: HistoryEntry[];
   onRevert: (entry: HistoryEntry) => void;
+  activeEntryId: number | null;
+  onSelectOriginal: () => void;
   selectedStyle: string | null;
   onStyleSelect: (styleName: string | null) => void;
   onLikeHistory: (entry: HistoryEntry) => void;
   onDislikeHistory: (entry: HistoryEntry) => void;
   onClearHistory: () => void;
+  hasMask: boolean;
+  onMaskChange: (maskDataUrl: string | null) => void;
+  references: ReferenceImage[];
+  onReferencesChange: (references: ReferenceImage[]) => void;
+  storageUsage?: HistoryStorageUsage | null;
 }
 
 const EditorView: React.FC<EditorViewProps> = ({
@@ -35,17 +55,62 @@ const EditorView: React.FC<EditorViewProps> = ({
   error,
   aiTextResponse,
   onGenerate,
+  onExpand,
   onReset,
   history,
   onRevert,
+  activeEntryId,
+  onSelectOriginal,
   selectedStyle,
   onStyleSelect,
   onLikeHistory,
   onDislikeHistory,
   onClearHistory,
+  hasMask,
+  onMaskChange,
+  references,
+  onReferencesChange,
+  storageUsage,
 }) => {
   const [isDownloadModalOpen, setIsDownloadModalOpen] = useState(false);
+  const [isMasking, setIsMasking] = useState(false);
+  const [isComparing, setIsComparing] = useState(false);
+  // Compare overlays the two images, so it only works when the edit kept the image's shape (e.g. not after Expand Canvas).
+  const [canCompare, setCanCompare] = useState(false);
+  // One zoom/pan state shared by every image view so they stay aligned.
+  const [view, setView] = useState<ViewTransform>(FIT_VIEW);
   const originalImageUrl = useMemo(() => URL.createObjectURL(originalImage), [originalImage]);
+  // The mask is painted over whatever the next edit will use as its input.
+  const inputImageUrl = editedImage ?? originalImageUrl;
+
+  useEffect(() => {
+    setCanCompare(false);
+    if (!editedImage) return;
+    let cancelled = false;
+    Promise.all([loadImage(originalImageUrl), loadImage(editedImage)])
+      .then(([before, after]) => {
+        const beforeRatio = before.naturalWidth / before.naturalHeight;
+        const afterRatio = after.naturalWidth / after.naturalHeight;
+        if (!cancelled) setCanCompare(Math.abs(afterRatio / beforeRatio - 1) <= ASPECT_RATIO_TOLERANCE);
+      })
+      .catch(err => console.error("Failed to measure images for comparison", err));
+    return () => { cancelled = true; };
+  }, [originalImageUrl, editedImage]);
+
+  // Describe the edit being shown; fall back to the form when it isn't in history (e.g. just evicted).
+  const exportMetadata = useMemo<ExportMetadata>(() => {
+    const entry = history.find(e => e.id === activeEntryId);
+    return {
+      prompt: entry?.prompt ?? prompt,
+      style: entry ? entry.style : selectedStyle,
+      model: IMAGE_EDIT_MODEL,
+    };
+  }, [history, activeEntryId, prompt, selectedStyle]);
+
+  const handleToggleMasking = () => {
+    if (isMasking) onMaskChange(null);
+    setIsMasking(!isMasking);
+  };
 
   const handlePromptChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     setPrompt(e.target.value);
@@ -67,6 +132,9 @@ const EditorView: React.FC<EditorViewProps> = ({
                <label htmlFor="prompt" className="block text-sm font-medium text-gray-400">
                 1. Describe your changes:
               </label>
+              <p className="text-xs text-gray-500">
+                {editedImage ? 'Changes apply to the edited image shown on the right.' : 'Changes apply to the original image.'}
+              </p>
               <textarea
                 id="prompt"
                 value={prompt}
@@ -76,6 +144,14 @@ const EditorView: React.FC<EditorViewProps> = ({
                 className="w-full bg-gray-700/80 border border-gray-600 rounded-md p-3 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition text-gray-200 placeholder-gray-500"
                 disabled={isLoading}
               />
+              <button
+                onClick={handleToggleMasking}
+                disabled={isLoading}
+                className={`w-full text-sm py-2 px-4 rounded-lg transition-colors ${isMasking ? 'bg-purple-600/30 text-purple-200 ring-1 ring-purple-500' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                aria-pressed={isMasking}
+              >
+                {isMasking ? (hasMask ? 'Masked edit: only the painted area changes' : 'Paint the area to change, or click to cancel') : 'Limit the edit to a painted area'}
+              </button>
               <button
                 onClick={onGenerate}
                 disabled={isLoading || !prompt.trim()}
@@ -87,7 +163,15 @@ const EditorView: React.FC<EditorViewProps> = ({
             </div>
           </div>
 
-          <StyleFilters selectedStyle={selectedStyle} onStyleSelect={onStyleSelect} />
+          <ExpandCanvasPanel imageUrl={inputImageUrl} onExpand={onExpand} disabled={isLoading} />
+
+          <ReferenceImagesPanel references={references} onChange={onReferencesChange} disabled={isLoading} />
+
+          <StyleFilters
+            selectedStyle={selectedStyle}
+            onStyleSelect={onStyleSelect}
+            thumbnailSources={[...(editedImage ? [editedImage] : []), ...history.map(e => e.imageUrl).filter(url => url !== editedImage)]}
+          />
           
            <div className="bg-gray-800/50 p-4 rounded-xl shadow-lg flex items-center justify-between">
              <h3 className="text-lg font-medium">Actions</h3>
@@ -99,23 +183,51 @@ const EditorView: React.FC<EditorViewProps> = ({
            {aiTextResponse && (
              <div className="bg-gray-800/50 p-4 rounded-xl shadow-lg">
                 <h3 className="text-md font-semibold mb-2 text-purple-300">AI Note</h3>
-                <p className="text-sm text-gray-300 italic">{aiTextResponse}</p>
+                <MarkdownRenderer text={aiTextResponse} className="text-gray-300" />
              </div>
             )}
           <HistoryPanel 
             history={history} 
             onRevert={onRevert}
+            activeEntryId={activeEntryId}
+            onSelectOriginal={onSelectOriginal}
             onLike={onLikeHistory}
             onDislike={onDislikeHistory}
             onClearHistory={onClearHistory}
+            storageUsage={storageUsage}
           />
         </div>
 
         {/* Images Column */}
-        <div className="lg:w-2/3 xl:w-3/4 grid grid-cols-1 md:grid-cols-2 gap-8">
-          <ImageDisplay label="Original" imageUrl={originalImageUrl} />
-          <ImageDisplay label="Edited" imageUrl={editedImage} isLoading={isLoading} />
-        </div>
+        {isMasking ? (
+          <div className="lg:w-2/3 xl:w-3/4">
+            <MaskEditor imageUrl={inputImageUrl} onMaskChange={onMaskChange} />
+          </div>
+        ) : (
+          <div className="lg:w-2/3 xl:w-3/4 space-y-4">
+            {editedImage && !isLoading && (
+              <div className="flex justify-end gap-2 p-1 bg-gray-800 rounded-lg w-max ml-auto">
+                <button onClick={() => setIsComparing(false)} className={`px-3 py-1.5 text-sm rounded-md transition ${!isComparing || !canCompare ? 'bg-purple-600' : 'hover:bg-gray-700'}`}>Side by Side</button>
+                <button
+                  onClick={() => setIsComparing(true)}
+                  disabled={!canCompare}
+                  title={canCompare ? undefined : 'Compare needs both images to have the same shape; this edit changed the canvas size.'}
+                  className={`px-3 py-1.5 text-sm rounded-md transition disabled:text-gray-500 disabled:cursor-not-allowed ${isComparing && canCompare ? 'bg-purple-600' : 'hover:bg-gray-700'}`}
+                >
+                  Compare
+                </button>
+              </div>
+            )}
+            {isComparing && canCompare && editedImage && !isLoading ? (
+              <ImageCompare beforeUrl={originalImageUrl} afterUrl={editedImage} view={view} onViewChange={setView} />
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+                <ImageDisplay label="Original" imageUrl={originalImageUrl} view={view} onViewChange={setView} />
+                <ImageDisplay label="Edited" imageUrl={editedImage} isLoading={isLoading} view={view} onViewChange={setView} />
+              </div>
+            )}
+          </div>
+        )}
       </div>
       {editedImage && (
         <DownloadModal
@@ -123,6 +235,7 @@ const EditorView: React.FC<EditorViewProps> = ({
           onClose={() => setIsDownloadModalOpen(false)}
           imageUrl={editedImage}
           fileName={originalImage.name}
+          metadata={exportMetadata}
         />
       )}
     </>
@@ -0,0 +1,137 @@
+import React, { useEffect, useState } from 'react';
+import type { CanvasPadding } from '../types';
+import { loadImage, paddingForAspectRatio } from '../utils/imageUtils';
+
+interface ExpandCanvasPanelProps {
+  // The image that will be expanded, i.e. the current edit or the original.
+  imageUrl: string;
+  onExpand: (padding: CanvasPadding, note: string) => void;
+  disabled?: boolean;
+}
+
+type ExpandMode = 'ratio' | 'padding';
+
+const RATIOS = [
+  { label: '1:1', value: 1 },
+  { label: '4:3', value: 4 / 3 },
+  { label: '3:4', value: 3 / 4 },
+  { label: '16:9', value: 16 / 9 },
+  { label: '9:16', value: 9 / 16 },
+  { label: '21:9', value: 21 / 9 },
+];
+
+const ALIGNMENTS = [
+  { label: 'Start', value: 0 },
+  { label: 'Center', value: 0.5 },
+  { label: 'End', value: 1 },
+];
+
+const SIDES: (keyof CanvasPadding)[] = ['top', 'right', 'bottom', 'left'];
+
+const MAX_SIDE = 4096;
+
+const ExpandCanvasPanel: React.FC<ExpandCanvasPanelProps> = ({ imageUrl, onExpand, disabled = false }) => {
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [mode, setMode] = useState<ExpandMode>('ratio');
+  const [ratio, setRatio] = useState(RATIOS[3]);
+  const [align, setAlign] = useState(0.5);
+  const [manualPadding, setManualPadding] = useState<CanvasPadding>({ top: 0, right: 0, bottom: 0, left: 0 });
+  const [note, setNote] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImage(imageUrl)
+      .then(img => { if (!cancelled) setSize({ width: img.naturalWidth, height: img.naturalHeight }); })
+      .catch(() => { if (!cancelled) setSize(null); });
+    return () => { cancelled = true; };
+  }, [imageUrl]);
+
+  if (!size) return null;
+
+  const padding = mode === 'ratio' ? paddingForAspectRatio(size.width, size.height, ratio.value, align) : manualPadding;
+  const newWidth = size.width + padding.left + padding.right;
+  const newHeight = size.height + padding.top + padding.bottom;
+  const hasPadding = SIDES.some(side => padding[side] > 0);
+  const tooLarge = newWidth > MAX_SIDE || newHeight > MAX_SIDE;
+  // A wider target ratio adds width, so the image is positioned left to right; otherwise top to bottom.
+  const growsHorizontally = mode === 'ratio' && ratio.value > size.width / size.height;
+
+  const handlePaddingChange = (side: keyof CanvasPadding, value: string) => {
+    const parsed = parseInt(value, 10);
+    setManualPadding(prev => ({ ...prev, [side]: Number.isFinite(parsed) && parsed > 0 ? parsed : 0 }));
+  };
+
+  const optionButton = (active: boolean) =>
+    `px-2 py-1 text-xs rounded-md transition ${active ? 'bg-purple-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`;
+
+  return (
+    <div className="bg-gray-800/50 p-6 rounded-xl shadow-lg">
+      <h3 className="text-xl font-semibold mb-1 text-purple-300">Expand Canvas</h3>
+      <p className="text-xs text-gray-500 mb-4">Place the image in a larger canvas and let the AI fill in the new area.</p>
+      <div className="space-y-4">
+        <div className="flex gap-2 p-1 bg-gray-800 rounded-lg">
+          <button onClick={() => setMode('ratio')} className={`w-full py-1.5 text-sm rounded-md transition ${mode === 'ratio' ? 'bg-purple-600' : 'hover:bg-gray-700'}`}>Aspect Ratio</button>
+          <button onClick={() => setMode('padding')} className={`w-full py-1.5 text-sm rounded-md transition ${mode === 'padding' ? 'bg-purple-600' : 'hover:bg-gray-700'}`}>Padding</button>
+        </div>
+
+        {mode === 'ratio' ? (
+          <>
+            <div className="flex flex-wrap gap-2">
+              {RATIOS.map(r => (
+                <button key={r.label} onClick={() => setRatio(r)} disabled={disabled} className={optionButton(ratio.label === r.label)}>{r.label}</button>
+              ))}
+            </div>
+            <div>
+              <p className="text-xs text-gray-400 mb-1">{growsHorizontally ? 'Image position (left to right)' : 'Image position (top to bottom)'}</p>
+              <div className="flex gap-2">
+                {ALIGNMENTS.map(a => (
+                  <button key={a.label} onClick={() => setAlign(a.value)} disabled={disabled} className={optionButton(align === a.value)}>{a.label}</button>
+                ))}
+              </div>
+            </div>
+          </>
+        ) : (
+          <div className="grid grid-cols-2 gap-2">
+            {SIDES.map(side => (
+              <label key={side} className="text-xs text-gray-400 capitalize">
+                {side} (px)
+                <input
+                  type="number"
+                  min={0}
+                  value={manualPadding[side] || ''}
+                  onChange={e => handlePaddingChange(side, e.target.value)}
+                  placeholder="0"
+                  disabled={disabled}
+                  className="mt-1 w-full bg-gray-700/80 border border-gray-600 rounded-md p-2 text-sm text-white focus:ring-2 focus:ring-purple-500"
+                />
+              </label>
+            ))}
+          </div>
+        )}
+
+        <input
+          value={note}
+          onChange={e => setNote(e.target.value)}
+          placeholder="Optional: what to show in the new area"
+          disabled={disabled}
+          className="w-full bg-gray-700/80 border border-gray-600 rounded-md p-2 text-sm focus:ring-2 focus:ring-purple-500"
+        />
+
+        <p className={`text-xs ${tooLarge ? 'text-red-400' : 'text-gray-500'}`}>
+          {size.width} × {size.height} → {newWidth} × {newHeight}px
+          {tooLarge && ` (max ${MAX_SIDE}px per side)`}
+        </p>
+
+        <button
+          onClick={() => onExpand(padding, note.trim())}
+          disabled={disabled || !hasPadding || tooLarge}
+          className="w-full bg-purple-600 hover:bg-purple-700 text-white font-bold py-2 px-4 rounded-lg transition disabled:bg-gray-600 disabled:cursor-not-allowed"
+        >
+          Expand
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ExpandCanvasPanel;
@@ -0,0 +1,70 @@
+import React from 'react';
+import type { GenerationEntry } from '../types';
+
+interface GenerationHistoryPanelProps {
+  generations: GenerationEntry[];
+  activeGenerationId: number | null;
+  onRestore: (generation: GenerationEntry) => void;
+  onDelete: (generation: GenerationEntry) => void;
+  onClear: () => void;
+}
+
+const GenerationHistoryPanel: React.FC<GenerationHistoryPanelProps> = ({ generations, activeGenerationId, onRestore, onDelete, onClear }) => {
+  return (
+    <div className="bg-gray-800/50 p-6 rounded-xl shadow-lg">
+      <h3 className="text-xl font-semibold mb-4 text-purple-300">Generation History</h3>
+      {generations.length === 0 ? (
+        <p className="text-sm text-gray-500 italic">Your generations will appear here.</p>
+      ) : (
+        <>
+          <ul className="space-y-2 max-h-96 overflow-y-auto pr-2">
+            {generations.map(generation => (
+              <li
+                key={generation.id}
+                className={`flex items-center gap-3 p-2 rounded-lg group ${generation.id === activeGenerationId ? 'bg-purple-600/30 ring-1 ring-purple-500' : 'bg-gray-700/50'}`}
+              >
+                <button
+                  onClick={() => onRestore(generation)}
+                  className="flex-grow flex items-center gap-3 text-left min-w-0 focus:outline-none"
+                  title="Show these images and reuse the settings"
+                >
+                  <div className="grid grid-cols-2 gap-0.5 w-12 h-12 flex-shrink-0 rounded-md overflow-hidden bg-gray-900">
+                    {generation.imageUrls.slice(0, 4).map(url => (
+                      <img key={url} src={url} alt="" className={`w-full h-full object-cover ${generation.imageUrls.length === 1 ? 'col-span-2 row-span-2' : ''}`} />
+                    ))}
+                  </div>
+                  <div className="min-w-0">
+                    <p className="text-sm text-gray-300 truncate group-hover:text-purple-300 transition-colors">{generation.prompt}</p>
+                    <p className="text-xs text-gray-500 truncate">
+                      {new Date(generation.createdAt).toLocaleString()} · {generation.aspectRatio}
+                      {generation.style && ` · ${generation.style}`}
+                      {generation.seed !== null && ` · seed ${generation.seed}`}
+                    </p>
+                  </div>
+                </button>
+                <button
+                  onClick={() => onDelete(generation)}
+                  className="p-1.5 rounded-full text-red-400 hover:bg-red-500/20 opacity-0 group-hover:opacity-100 transition-opacity"
+                  aria-label="Delete generation"
+                  title="Delete"
+                >
+                  ✕
+                </button>
+              </li>
+            ))}
+          </ul>
+          <div className="mt-4 pt-4 border-t border-gray-700/50">
+            <button
+              onClick={onClear}
+              className="w-full text-center text-sm text-red-400 hover:text-red-300 hover:bg-red-500/10 py-2 rounded-md transition-colors"
+            >
+              Clear All History
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default GenerationHistoryPanel;
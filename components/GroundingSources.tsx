@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import type { GroundingChunk } from '../types';
+import { groundingUri, sourceDomain, sourceTitle } from '../utils/citationUtils';
+
+interface GroundingSourcesProps {
+  chunks: GroundingChunk[];
+  // Google Search suggestions HTML from the grounding metadata.
+  searchEntryPoint?: string;
+}
+
+const SourceIcon: React.FC<{ domain: string }> = ({ domain }) => {
+  const [failed, setFailed] = useState(false);
+  if (!domain || failed) {
+    return (
+      <span className="w-4 h-4 flex-shrink-0 rounded-sm bg-gray-600 text-[10px] leading-4 text-center text-gray-200 uppercase">
+        {domain.charAt(0) || '?'}
+      </span>
+    );
+  }
+  return (
+    <img
+      src={`https://www.google.com/s2/favicons?domain=${encodeURIComponent(domain)}&sz=32`}
+      alt=""
+      onError={() => setFailed(true)}
+      className="w-4 h-4 flex-shrink-0 rounded-sm"
+    />
+  );
+};
+
+// The suggestions come with their own markup and styles, so they are isolated in a sandboxed frame.
+// Links still open in a new tab.
+const SearchSuggestions: React.FC<{ html: string }> = ({ html }) => (
+  <iframe
+    srcDoc={`<base target="_blank"><style>body{margin:0;background:transparent}</style>${html}`}
+    sandbox="allow-popups allow-popups-to-escape-sandbox"
+    title="Google Search suggestions"
+    className="mt-2 w-full h-14 border-0 bg-transparent"
+  />
+);
+
+const MAX_REVIEWS_SHOWN = 2;
+
+// A Maps source: the place, what the model took from it, and the reviews it drew on.
+const PlaceCard: React.FC<{ place: NonNullable<GroundingChunk['maps']>; number: number }> = ({ place, number }) => (
+  <li className="rounded-lg bg-gray-800/70 ring-1 ring-gray-600 p-3">
+    <div className="flex items-start gap-2">
+      <span className="text-gray-500 text-xs mt-0.5">{number}</span>
+      <div className="min-w-0 flex-grow">
+        <a href={place.uri} target="_blank" rel="noopener noreferrer" className="text-sm font-semibold text-blue-400 hover:underline">
+          {place.title}
+        </a>
+        {place.text && <p className="mt-1 text-xs text-gray-300 line-clamp-3">{place.text}</p>}
+        {place.reviews && place.reviews.length > 0 && (
+          <ul className="mt-2 space-y-1">
+            {place.reviews.slice(0, MAX_REVIEWS_SHOWN).map((review, i) => (
+              <li key={i} className="text-xs text-gray-400 border-l-2 border-gray-600 pl-2">
+                <p className="italic line-clamp-3">“{review.text}”</p>
+                <p className="text-gray-500">
+                  {review.author ?? 'Google Maps review'}
+                  {review.publishedAgo && ` · ${review.publishedAgo}`}
+                  {review.uri && (
+                    <> · <a href={review.uri} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:underline">View</a></>
+                  )}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+        <a href={place.uri} target="_blank" rel="noopener noreferrer" className="mt-2 inline-block text-xs text-purple-300 hover:text-purple-200">
+          Open in Google Maps ↗
+        </a>
+      </div>
+    </div>
+  </li>
+);
+
+/**
+ * The sources behind a grounded answer, numbered to match its inline citations.
+ * Web pages are listed as links; Maps places are shown as cards.
+ */
+const GroundingSources: React.FC<GroundingSourcesProps> = ({ chunks, searchEntryPoint }) => {
+  if (chunks.length === 0 && !searchEntryPoint) return null;
+  // Positions are kept so the numbers still match the citations.
+  const numbered = chunks.map((chunk, i) => ({ chunk, number: i + 1 }));
+  const places = numbered.filter(({ chunk }) => chunk.maps);
+  const pages = numbered.filter(({ chunk }) => !chunk.maps);
+  return (
+    <div className="mt-2 border-t border-gray-600 pt-2">
+      {places.length > 0 && (
+        <>
+          <h4 className="text-xs font-semibold text-gray-400 mb-1">Places:</h4>
+          <ol className="grid gap-2 sm:grid-cols-2 mb-2">
+            {places.map(({ chunk, number }) => <PlaceCard key={chunk.maps!.uri} place={chunk.maps!} number={number} />)}
+          </ol>
+        </>
+      )}
+      {pages.length > 0 && (
+        <>
+          <h4 className="text-xs font-semibold text-gray-400 mb-1">Sources:</h4>
+          <ol className="text-xs space-y-1">
+            {pages.map(({ chunk, number }) => {
+              const domain = sourceDomain(chunk);
+              const title = sourceTitle(chunk);
+              return (
+                <li key={groundingUri(chunk) ?? number}>
+                  <a
+                    href={groundingUri(chunk)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center gap-2 min-w-0 text-blue-400 hover:underline"
+                  >
+                    <span className="text-gray-500 w-4 text-right flex-shrink-0">{number}</span>
+                    <SourceIcon domain={domain} />
+                    <span className="truncate">{title}</span>
+                    {domain && domain !== title && <span className="text-gray-500 flex-shrink-0">{domain}</span>}
+                  </a>
+                </li>
+              );
+            })}
+          </ol>
+        </>
+      )}
+      {searchEntryPoint && <SearchSuggestions html={searchEntryPoint} />}
+    </div>
+  );
+};
+
+export default GroundingSources;
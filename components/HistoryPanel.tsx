@@ -1,5 +1,6 @@
-import React from 'react';
-import type { HistoryEntry } from '../types';
+import React, { useMemo } from 'react';
+import type { HistoryEntry, HistoryStorageUsage } from '../types';
+import { formatBytes } from '../utils/fileUtils';
 
 interface HistoryPanelProps {
   history: HistoryEntry[];
@@ -7,9 +8,125 @@ interface HistoryPanelProps {
   onLike: (entry: HistoryEntry) => void;
   onDislike: (entry: HistoryEntry) => void;
   onClearHistory: () => void;
+  activeEntryId: number | null;
+  onSelectOriginal: () => void;
+  storageUsage?: HistoryStorageUsage | null;
 }
 
-const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onRevert, onLike, onDislike, onClearHistory }) => {
+interface HistoryNodeProps {
+  entry: HistoryEntry;
+  childrenByParent: Map<number | null, HistoryEntry[]>;
+  depth: number;
+  activeEntryId: number | null;
+  onRevert: (entry: HistoryEntry) => void;
+  onLike: (entry: HistoryEntry) => void;
+  onDislike: (entry: HistoryEntry) => void;
+}
+
+// Renders one edit and, indented beneath it, every edit that was made from it.
+const HistoryNode: React.FC<HistoryNodeProps> = ({ entry, childrenByParent, depth, activeEntryId, onRevert, onLike, onDislike }) => {
+  const isActive = entry.id === activeEntryId;
+  const children = childrenByParent.get(entry.id) || [];
+  return (
+    <div className={depth > 1 ? 'ml-3 border-l border-gray-600 pl-2 space-y-2' : 'space-y-2'}>
+      <div
+        className={`w-full flex items-center gap-3 p-2 rounded-lg group ${isActive ? 'bg-purple-600/30 ring-1 ring-purple-500' : 'bg-gray-700/50'}`}
+      >
+        <button 
+          onClick={() => onRevert(entry)}
+          className="flex-grow flex items-center gap-3 text-left focus:outline-none rounded-md"
+          aria-label={`Continue editing from: ${entry.prompt}`}
+          title="Show this edit and branch from it"
+        >
+          <img 
+            src={entry.imageUrl} 
+            alt="History thumbnail" 
+            className="w-12 h-12 object-cover rounded-md flex-shrink-0"
+          />
+          <div className="min-w-0">
+            <p className="text-sm text-gray-300 truncate group-hover:text-purple-300 transition-colors">
+              {entry.prompt}
+            </p>
+            {entry.inputs && entry.inputs.length > 0 && (
+              <div className="flex gap-1 mt-1">
+                {entry.inputs.map((input, i) => (
+                  <img
+                    key={i}
+                    src={input.thumbnailUrl}
+                    alt={input.name}
+                    title={`Image ${i + 2} (${input.role}): ${input.name}`}
+                    className={`w-5 h-5 object-cover rounded ${input.role === 'style' ? 'ring-1 ring-pink-400' : 'ring-1 ring-gray-500'}`}
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+        </button>
+        <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+           <button 
+            onClick={() => onLike(entry)} 
+            className="p-1.5 rounded-full hover:bg-green-500/20 text-green-400"
+            aria-label="Like and Download"
+            title="Like and Download"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+              <path d="M2 10.5a1.5 1.5 0 113 0v6a1.5 1.5 0 01-3 0v-6zM6 10.333V17a1 1 0 001 1h6.364a1 1 0 00.949-.684l2.713-6.331A1 1 0 0016 9.5h-1.333V6.5a1 1 0 00-1-1h-1.333a1 1 0 00-1 1v1.333h-1.334a1 1 0 00-1 1v2.333H6z" />
+            </svg>
+          </button>
+          <button 
+            onClick={() => onDislike(entry)} 
+            className="p-1.5 rounded-full hover:bg-red-500/20 text-red-400"
+            aria-label="Dislike and Delete"
+            title="Dislike and Delete"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+              <path d="M18 9.5a1.5 1.5 0 11-3 0v-6a1.5 1.5 0 013 0v6zM14 9.667V3a1 1 0 00-1-1h-6.364a1 1 0 00-.949.684L2.973 8.999A1 1 0 004 10.5h1.333V13.5a1 1 0 001 1h1.333a1 1 0 001-1V12.167h1.334a1 1 0 001-1V8.833H14z" />
+            </svg>
+          </button>
+        </div>
+      </div>
+      {children.map(child => (
+        <HistoryNode
+          key={child.id}
+          entry={child}
+          childrenByParent={childrenByParent}
+          depth={depth + 1}
+          activeEntryId={activeEntryId}
+          onRevert={onRevert}
+          onLike={onLike}
+          onDislike={onDislike}
+        />
+      ))}
+    </div>
+  );
+};
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  history,
+  onRevert,
+  onLike,
+  onDislike,
+  onClearHistory,
+  activeEntryId,
+  onSelectOriginal,
+  storageUsage,
+}) => {
+  // Group edits by the entry they were made from. Edits whose parent no longer exists hang off the original.
+  const childrenByParent = useMemo(() => {
+    const ids = new Set(history.map(e => e.id));
+    const map = new Map<number | null, HistoryEntry[]>();
+    [...history].sort((a, b) => a.id - b.id).forEach(entry => {
+      const parentId = entry.parentId != null && ids.has(entry.parentId) ? entry.parentId : null;
+      map.set(parentId, [...(map.get(parentId) || []), entry]);
+    });
+    return map;
+  }, [history]);
+  const roots = childrenByParent.get(null) || [];
+
+  const quotaPercent = storageUsage && storageUsage.quota > 0
+    ? Math.min(100, (storageUsage.usage / storageUsage.quota) * 100)
+    : null;
+
   return (
     <div className="bg-gray-800/50 p-6 rounded-xl shadow-lg">
       <div className="flex justify-between items-center mb-4">
@@ -20,49 +137,25 @@ const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onRevert, onLike,
         <p className="text-sm text-gray-500 italic">Your edits for this image will appear here.</p>
       ) : (
         <>
-          <div className="space-y-3 max-h-60 overflow-y-auto pr-2">
-            {history.map((entry) => (
-              <div
+          <div className="space-y-2 max-h-80 overflow-y-auto pr-2">
+            <button
+              onClick={onSelectOriginal}
+              className={`w-full text-left text-sm px-2 py-1.5 rounded-lg transition-colors ${activeEntryId === null ? 'bg-purple-600/30 text-purple-200' : 'text-gray-400 hover:bg-gray-700/50'}`}
+              aria-label="Go back to the original image"
+            >
+              Original image
+            </button>
+            {roots.map((entry) => (
+              <HistoryNode
                 key={entry.id}
-                className="w-full flex items-center gap-3 p-2 rounded-lg bg-gray-700/50 group"
-              >
-                <button 
-                  onClick={() => onRevert(entry)}
-                  className="flex-grow flex items-center gap-3 text-left focus:outline-none rounded-md"
-                  aria-label={`Revert to edit with prompt: ${entry.prompt}`}
-                >
-                  <img 
-                    src={entry.imageUrl} 
-                    alt="History thumbnail" 
-                    className="w-12 h-12 object-cover rounded-md flex-shrink-0"
-                  />
-                  <p className="text-sm text-gray-300 truncate group-hover:text-purple-300 transition-colors">
-                    {entry.prompt}
-                  </p>
-                </button>
-                <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
-                   <button 
-                    onClick={() => onLike(entry)} 
-                    className="p-1.5 rounded-full hover:bg-green-500/20 text-green-400"
-                    aria-label="Like and Download"
-                    title="Like and Download"
-                  >
-                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
-                      <path d="M2 10.5a1.5 1.5 0 113 0v6a1.5 1.5 0 01-3 0v-6zM6 10.333V17a1 1 0 001 1h6.364a1 1 0 00.949-.684l2.713-6.331A1 1 0 0016 9.5h-1.333V6.5a1 1 0 00-1-1h-1.333a1 1 0 00-1 1v1.333h-1.334a1 1 0 00-1 1v2.333H6z" />
-                    </svg>
-                  </button>
-                  <button 
-                    onClick={() => onDislike(entry)} 
-                    className="p-1.5 rounded-full hover:bg-red-500/20 text-red-400"
-                    aria-label="Dislike and Delete"
-                    title="Dislike and Delete"
-                  >
-                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
-                      <path d="M18 9.5a1.5 1.5 0 11-3 0v-6a1.5 1.5 0 013 0v6zM14 9.667V3a1 1 0 00-1-1h-6.364a1 1 0 00-.949.684L2.973 8.999A1 1 0 004 10.5h1.333V13.5a1 1 0 001 1h1.333a1 1 0 001-1V12.167h1.334a1 1 0 001-1V8.833H14z" />
-                    </svg>
-                  </button>
-                </div>
-              </div>
+                entry={entry}
+                childrenByParent={childrenByParent}
+                depth={1}
+                activeEntryId={activeEntryId}
+                onRevert={onRevert}
+                onLike={onLike}
+                onDislike={onDislike}
+              />
             ))}
           </div>
           <div className="mt-4 pt-4 border-t border-gray-700/50">
@@ -75,6 +168,24 @@ const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onRevert, onLike,
           </div>
         </>
       )}
+
+      {storageUsage && (
+        <div className="mt-4 text-xs text-gray-500 space-y-1">
+          <p>
+            History uses {formatBytes(storageUsage.historyBytes)}
+            {quotaPercent !== null && ` · ${quotaPercent.toFixed(1)}% of ${formatBytes(storageUsage.quota)} browser storage`}
+          </p>
+          {quotaPercent !== null && (
+            <div className="h-1.5 bg-gray-700 rounded-full overflow-hidden">
+              <div
+                className={`h-full ${quotaPercent > 80 ? 'bg-red-500' : 'bg-purple-500'}`}
+                style={{ width: `${quotaPercent}%` }}
+              />
+            </div>
+          )}
+          <p>Oldest edits of other images are removed automatically when space runs low.</p>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,121 @@
+import React, { useEffect, useState } from 'react';
+import ZoomPanViewport, { ViewTransform } from './ZoomPanViewport';
+import { createDifferenceImage } from '../utils/imageUtils';
+
+type CompareMode = 'split' | 'onion' | 'difference';
+
+interface ImageCompareProps {
+  beforeUrl: string;
+  afterUrl: string;
+  view: ViewTransform;
+  onViewChange: (view: ViewTransform) => void;
+}
+
+const MODE_LABELS: Record<CompareMode, string> = {
+  split: 'Split',
+  onion: 'Onion Skin',
+  difference: 'Difference',
+};
+
+const ImageCompare: React.FC<ImageCompareProps> = ({ beforeUrl, afterUrl, view, onViewChange }) => {
+  const [mode, setMode] = useState<CompareMode>('split');
+  const [split, setSplit] = useState(50);
+  const [opacity, setOpacity] = useState(50);
+  const [differenceUrl, setDifferenceUrl] = useState<string | null>(null);
+  const [differenceError, setDifferenceError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (mode !== 'difference') return;
+    let cancelled = false;
+    setDifferenceUrl(null);
+    setDifferenceError(null);
+    createDifferenceImage(beforeUrl, afterUrl)
+      .then(url => { if (!cancelled) setDifferenceUrl(url); })
+      .catch(err => { if (!cancelled) setDifferenceError(err instanceof Error ? err.message : 'Failed to compare images.'); });
+    return () => { cancelled = true; };
+  }, [mode, beforeUrl, afterUrl]);
+
+  // The divider lives in screen space, so it stays under the pointer at any zoom level.
+  const handleDividerPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handleDividerPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const viewport = e.currentTarget.parentElement;
+    if (!e.currentTarget.hasPointerCapture(e.pointerId) || !viewport) return;
+    const rect = viewport.getBoundingClientRect();
+    setSplit(Math.min(100, Math.max(0, ((e.clientX - rect.left) / rect.width) * 100)));
+  };
+
+  const renderLayer = (url: string, alt: string, layerStyle: React.CSSProperties) => (
+    <div className="absolute inset-0 flex items-center justify-center" style={layerStyle}>
+      <img src={url} alt={alt} className="max-w-full max-h-full object-contain" draggable={false} />
+    </div>
+  );
+
+  return (
+    <div className="bg-gray-800/50 rounded-xl shadow-lg flex flex-col h-full">
+      <div className="bg-gray-700/50 px-4 py-2 rounded-t-xl flex flex-wrap items-center gap-2">
+        <h3 className="font-semibold text-gray-300 mr-auto">Compare</h3>
+        {(Object.keys(MODE_LABELS) as CompareMode[]).map(m => (
+          <button
+            key={m}
+            onClick={() => setMode(m)}
+            className={`px-3 py-1.5 text-sm rounded-md transition ${mode === m ? 'bg-purple-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+            aria-pressed={mode === m}
+          >
+            {MODE_LABELS[m]}
+          </button>
+        ))}
+        {mode === 'onion' && (
+          <label className="flex items-center gap-2 text-sm text-gray-400">
+            Edited
+            <input type="range" min={0} max={100} value={opacity} onChange={e => setOpacity(Number(e.target.value))} className="accent-purple-500" />
+          </label>
+        )}
+      </div>
+      <div className="p-4 flex-grow aspect-square">
+        <ZoomPanViewport view={view} onViewChange={onViewChange} className="w-full h-full rounded-lg">
+          {layerStyle => (
+            <>
+              {mode === 'difference' ? (
+                differenceUrl
+                  ? renderLayer(differenceUrl, 'Difference between original and edited', layerStyle)
+                  : <p className="absolute inset-0 flex items-center justify-center text-gray-400">{differenceError || 'Computing difference...'}</p>
+              ) : (
+                <>
+                  {renderLayer(beforeUrl, 'Original', layerStyle)}
+                  <div
+                    className="absolute inset-0"
+                    style={mode === 'split' ? { clipPath: `inset(0 0 0 ${split}%)` } : { opacity: opacity / 100 }}
+                  >
+                    {renderLayer(afterUrl, 'Edited', layerStyle)}
+                  </div>
+                </>
+              )}
+              {mode === 'split' && (
+                <div
+                  className="absolute top-0 bottom-0 w-6 -ml-3 flex justify-center cursor-ew-resize z-10"
+                  style={{ left: `${split}%` }}
+                  onPointerDown={handleDividerPointerDown}
+                  onPointerMove={handleDividerPointerMove}
+                  role="slider"
+                  aria-label="Comparison split position"
+                  aria-valuemin={0}
+                  aria-valuemax={100}
+                  aria-valuenow={Math.round(split)}
+                >
+                  <div className="w-0.5 h-full bg-white/80 shadow" />
+                  <div className="absolute top-1/2 -translate-y-1/2 w-6 h-6 rounded-full bg-white shadow flex items-center justify-center text-gray-800 text-xs">↔</div>
+                </div>
+              )}
+            </>
+          )}
+        </ZoomPanViewport>
+      </div>
+    </div>
+  );
+};
+
+export default ImageCompare;
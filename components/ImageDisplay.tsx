@@ -1,13 +1,17 @@
 
 import React from 'react';
+import ZoomPanViewport, { ViewTransform } from './ZoomPanViewport';
 
 interface ImageDisplayProps {
   label: string;
   imageUrl: string | null;
   isLoading?: boolean;
+  // When given, the image can be zoomed and panned; sharing one view keeps several displays in sync.
+  view?: ViewTransform;
+  onViewChange?: (view: ViewTransform) => void;
 }
 
-const ImageDisplay: React.FC<ImageDisplayProps> = ({ label, imageUrl, isLoading = false }) => {
+const ImageDisplay: React.FC<ImageDisplayProps> = ({ label, imageUrl, isLoading = false, view, onViewChange }) => {
   return (
     <div className="bg-gray-800/50 rounded-xl shadow-lg flex flex-col h-full">
       <div className="bg-gray-700/50 px-4 py-2 rounded-t-xl">
@@ -22,6 +26,14 @@ const ImageDisplay: React.FC<ImageDisplayProps> = ({ label, imageUrl, isLoading
             </svg>
             <p className="mt-4 text-lg">Brewing pixels...</p>
           </div>
+        ) : imageUrl && view && onViewChange ? (
+          <ZoomPanViewport view={view} onViewChange={onViewChange} className="w-full h-full rounded-lg">
+            {layerStyle => (
+              <div className="absolute inset-0 flex items-center justify-center" style={layerStyle}>
+                <img src={imageUrl} alt={label} className="max-w-full max-h-full object-contain" draggable={false} />
+              </div>
+            )}
+          </ZoomPanViewport>
         ) : imageUrl ? (
           <img
             src={imageUrl}
@@ -2,16 +2,28 @@
 import React, { useCallback, useState } from 'react';
 
 interface ImageUploaderProps {
-  onImageUpload: (file: File) => void;
+  onImageUpload?: (file: File) => void;
+  // When provided, several files can be chosen at once and all accepted ones are passed in order.
+  onFilesUpload?: (files: File[]) => void;
   accept?: string;
 }
 
-const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload, accept = "image/*" }) => {
+const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload, onFilesUpload, accept = "image/*" }) => {
   const [isDragging, setIsDragging] = useState(false);
+  const multiple = Boolean(onFilesUpload);
+
+  const deliver = useCallback((files: File[]) => {
+    if (files.length === 0) return;
+    if (onFilesUpload) {
+      onFilesUpload(files);
+    } else {
+      onImageUpload?.(files[0]);
+    }
+  }, [onImageUpload, onFilesUpload]);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
-      onImageUpload(e.target.files[0]);
+      deliver(Array.from(e.target.files));
     }
   };
 
@@ -21,23 +33,24 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload, accept = "
     setIsDragging(false);
     if (e.dataTransfer.files && e.dataTransfer.files[0]) {
       // Check if the file type is accepted
-      const file = e.dataTransfer.files[0];
       const acceptedTypes = accept.split(',').map(t => t.trim());
-      const isAccepted = acceptedTypes.some(type => {
+      const isAccepted = (file: File) => acceptedTypes.some(type => {
         if (type.endsWith('/*')) {
           return file.type.startsWith(type.slice(0, -2));
         }
         return file.type === type;
       });
 
-      if (isAccepted) {
-        onImageUpload(file);
+      const dropped = Array.from(e.dataTransfer.files).slice(0, multiple ? undefined : 1);
+      const accepted = dropped.filter(isAccepted);
+      if (accepted.length > 0) {
+        deliver(accepted);
       } else {
         // Optionally, provide feedback to the user about the wrong file type
         alert(`Invalid file type. Please upload one of: ${accept}`);
       }
     }
-  }, [onImageUpload, accept]);
+  }, [deliver, multiple, accept]);
 
   const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
@@ -68,6 +81,7 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload, accept = "
         <input
           type="file"
           accept={accept}
+          multiple={multiple}
           onChange={handleFileChange}
           className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
           id="file-upload"
@@ -75,7 +89,7 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload, accept = "
         <label htmlFor="file-upload" className="flex flex-col items-center justify-center space-y-4 cursor-pointer">
           <svg className="w-16 h-16 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z"></path></svg>
           <p className="text-xl font-semibold text-gray-300">
-            Drag & drop your file here
+            {multiple ? 'Drag & drop your files here' : 'Drag & drop your file here'}
           </p>
           <p className="text-gray-400">or click to browse</p>
            <p className="text-xs text-gray-500 mt-2">{accept.replace('/*', ' files')}</p>
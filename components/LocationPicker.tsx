@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import type { UserLocation } from '../types';
+
+interface LocationPickerProps {
+  location: UserLocation | null;
+  onChange: (location: UserLocation | null) => void;
+  disabled?: boolean;
+}
+
+const GEOLOCATION_TIMEOUT_MS = 10_000;
+
+// "52.52, 13.405" is taken as coordinates; anything else is a place name.
+const parseLocation = (text: string): UserLocation => {
+  const match = /^\s*(-?\d+(?:\.\d+)?)\s*[, ]\s*(-?\d+(?:\.\d+)?)\s*$/.exec(text);
+  if (match) {
+    const [latitude, longitude] = [parseFloat(match[1]), parseFloat(match[2])];
+    if (Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180) {
+      return { source: 'manual', label: text.trim(), latitude, longitude };
+    }
+  }
+  return { source: 'manual', label: text.trim() };
+};
+
+/** Lets the user share their device location, or type one in, for Maps answers. Nothing is shared until they choose to. */
+const LocationPicker: React.FC<LocationPickerProps> = ({ location, onChange, disabled = false }) => {
+  const [draft, setDraft] = useState('');
+  const [isLocating, setIsLocating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleUseDevice = () => {
+    if (!navigator.geolocation) {
+      setError("This browser can't share its location. Type a place instead.");
+      return;
+    }
+    setIsLocating(true);
+    setError(null);
+    navigator.geolocation.getCurrentPosition(
+      position => {
+        setIsLocating(false);
+        onChange({ source: 'device', label: 'Current location', latitude: position.coords.latitude, longitude: position.coords.longitude });
+      },
+      err => {
+        setIsLocating(false);
+        setError(err.code === err.PERMISSION_DENIED
+          ? 'Location access was denied. Type a place instead.'
+          : `Couldn't get your location: ${err.message}`);
+      },
+      { timeout: GEOLOCATION_TIMEOUT_MS, maximumAge: 60_000 }
+    );
+  };
+
+  const handleSetManual = () => {
+    if (!draft.trim()) return;
+    setError(null);
+    onChange(parseLocation(draft));
+    setDraft('');
+  };
+
+  if (location) {
+    const hasCoordinates = location.latitude !== undefined && location.longitude !== undefined;
+    return (
+      <div className="mb-3 flex items-center gap-2 text-xs text-gray-400">
+        <span aria-hidden="true">📍</span>
+        <span className="truncate">
+          {location.source === 'device' ? 'Using your current location' : `Near ${location.label}`}
+          {hasCoordinates && ` (${location.latitude!.toFixed(3)}, ${location.longitude!.toFixed(3)})`}
+        </span>
+        <button onClick={() => onChange(null)} disabled={disabled} className="text-purple-300 hover:text-purple-200">Clear</button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mb-3">
+      <div className="flex items-center gap-2">
+        <button
+          onClick={handleUseDevice}
+          disabled={disabled || isLocating}
+          className="px-3 py-1.5 text-xs rounded-md bg-gray-700 text-gray-300 hover:bg-gray-600 transition disabled:opacity-50 whitespace-nowrap"
+        >
+          {isLocating ? 'Locating…' : '📍 Use my location'}
+        </button>
+        <span className="text-xs text-gray-500">or</span>
+        <input
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          onKeyDown={e => { if (e.key === 'Enter') handleSetManual(); }}
+          placeholder="City, address or lat, lng"
+          disabled={disabled}
+          className="flex-grow min-w-0 bg-gray-700/80 border border-gray-600 rounded-md px-2 py-1.5 text-xs focus:ring-2 focus:ring-purple-500"
+        />
+        <button
+          onClick={handleSetManual}
+          disabled={disabled || !draft.trim()}
+          className="px-3 py-1.5 text-xs rounded-md bg-gray-700 text-gray-300 hover:bg-gray-600 transition disabled:opacity-50"
+        >
+          Set
+        </button>
+      </div>
+      {error
+        ? <p className="mt-1 text-xs text-red-400">{error}</p>
+        : <p className="mt-1 text-xs text-gray-500">Share a location so answers like "coffee near me" know where you are.</p>}
+    </div>
+  );
+};
+
+export default LocationPicker;
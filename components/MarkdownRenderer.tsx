@@ -0,0 +1,96 @@
+import React, { useMemo, useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import type { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import hljs from 'highlight.js/lib/common';
+import { CITATION_TITLE_PREFIX } from '../utils/citationUtils';
+
+interface MarkdownRendererProps {
+  text: string;
+  className?: string;
+}
+
+interface CodeBlockProps {
+  code: string;
+  language: string | null;
+}
+
+const CodeBlock: React.FC<CodeBlockProps> = ({ code, language }) => {
+  const [copied, setCopied] = useState(false);
+
+  // highlight.js escapes the source before adding its own spans, so its output is safe to inject.
+  const highlighted = useMemo(() => {
+    if (language && hljs.getLanguage(language)) {
+      return hljs.highlight(code, { language, ignoreIllegals: true });
+    }
+    return hljs.highlightAuto(code);
+  }, [code, language]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (err) {
+      console.error("Failed to copy code", err);
+    }
+  };
+
+  return (
+    <div className="not-prose my-3 rounded-lg overflow-hidden border border-gray-600 bg-gray-900">
+      <div className="flex items-center justify-between px-3 py-1 bg-gray-800 text-xs text-gray-400">
+        <span>{language || highlighted.language || 'code'}</span>
+        <button onClick={handleCopy} className="hover:text-white transition-colors" aria-label="Copy code">
+          {copied ? 'Copied!' : 'Copy'}
+        </button>
+      </div>
+      <pre className="p-3 overflow-x-auto text-sm">
+        <code className="hljs bg-transparent" dangerouslySetInnerHTML={{ __html: highlighted.value }} />
+      </pre>
+    </div>
+  );
+};
+
+const components: Components = {
+  // Fenced code arrives as <pre><code class="language-x">; swap the whole block for CodeBlock.
+  pre: ({ children }) => {
+    const child = React.Children.toArray(children)[0] as React.ReactElement<{ className?: string; children?: React.ReactNode }> | undefined;
+    const language = /language-([\w+#-]+)/.exec(child?.props.className ?? '')?.[1] ?? null;
+    const code = String(child?.props.children ?? '').replace(/\n$/, '');
+    return <CodeBlock code={code} language={language} />;
+  },
+  a: ({ href, title, children }) => title?.startsWith(CITATION_TITLE_PREFIX) ? (
+    <a
+      href={href}
+      target="_blank"
+      rel="noopener noreferrer"
+      title={title.slice(CITATION_TITLE_PREFIX.length)}
+      className="not-prose inline-block align-super ml-0.5 px-1 rounded bg-gray-600 text-[10px] leading-4 text-blue-300 no-underline hover:bg-gray-500"
+    >
+      {children}
+    </a>
+  ) : (
+    <a href={href} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:underline">{children}</a>
+  ),
+  table: ({ children }) => (
+    <div className="overflow-x-auto">
+      <table>{children}</table>
+    </div>
+  ),
+};
+
+/**
+ * Renders model output as Markdown with GitHub tables, syntax-highlighted code and LaTeX math.
+ * Raw HTML in the text is not rendered, and unsafe link protocols are stripped.
+ */
+const MarkdownRenderer: React.FC<MarkdownRendererProps> = ({ text, className = '' }) => (
+  <div className={`prose prose-invert prose-sm max-w-none break-words ${className}`}>
+    <ReactMarkdown remarkPlugins={[remarkGfm, remarkMath]} rehypePlugins={[rehypeKatex]} components={components}>
+      {text}
+    </ReactMarkdown>
+  </div>
+);
+
+export default MarkdownRenderer;
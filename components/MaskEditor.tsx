@@ -0,0 +1,174 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+
+interface MaskEditorProps {
+  imageUrl: string;
+  // Called after every change with a black/white PNG data URL (white = edit), or null when nothing is painted.
+  onMaskChange: (maskDataUrl: string | null) => void;
+}
+
+type MaskTool = 'brush' | 'eraser';
+
+const MASK_COLOR = 'rgb(168, 85, 247)'; // Tailwind purple-500, shown at half opacity over the image
+
+const MaskEditor: React.FC<MaskEditorProps> = ({ imageUrl, onMaskChange }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+  const [tool, setTool] = useState<MaskTool>('brush');
+  const [brushSize, setBrushSize] = useState(40);
+
+  // Size the canvas to the image's natural resolution so the mask lines up pixel for pixel.
+  useEffect(() => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = canvasRef.current;
+      if (!canvas) return;
+      canvas.width = img.naturalWidth;
+      canvas.height = img.naturalHeight;
+      onMaskChange(null);
+    };
+    img.src = imageUrl;
+    // onMaskChange is intentionally left out: a new callback identity must not wipe the mask.
+  }, [imageUrl]);
+
+  const emitMask = useCallback(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || canvas.width === 0) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    let isEmpty = true;
+    for (let i = 3; i < data.length; i += 4) {
+      if (data[i] > 0) {
+        isEmpty = false;
+        break;
+      }
+    }
+    if (isEmpty) {
+      onMaskChange(null);
+      return;
+    }
+
+    // Painted pixels become white on a black background.
+    const white = document.createElement('canvas');
+    white.width = canvas.width;
+    white.height = canvas.height;
+    const whiteCtx = white.getContext('2d');
+    const mask = document.createElement('canvas');
+    mask.width = canvas.width;
+    mask.height = canvas.height;
+    const maskCtx = mask.getContext('2d');
+    if (!whiteCtx || !maskCtx) return;
+    whiteCtx.drawImage(canvas, 0, 0);
+    whiteCtx.globalCompositeOperation = 'source-in';
+    whiteCtx.fillStyle = 'white';
+    whiteCtx.fillRect(0, 0, white.width, white.height);
+    maskCtx.fillStyle = 'black';
+    maskCtx.fillRect(0, 0, mask.width, mask.height);
+    maskCtx.drawImage(white, 0, 0);
+    onMaskChange(mask.toDataURL('image/png'));
+  }, [onMaskChange]);
+
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    const scale = canvas.width / rect.width;
+    return { x: (e.clientX - rect.left) * scale, y: (e.clientY - rect.top) * scale, scale };
+  };
+
+  const drawTo = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = e.currentTarget.getContext('2d');
+    if (!ctx) return;
+    const { x, y, scale } = toCanvasPoint(e);
+    const from = lastPointRef.current ?? { x, y };
+    ctx.globalCompositeOperation = tool === 'brush' ? 'source-over' : 'destination-out';
+    ctx.strokeStyle = MASK_COLOR;
+    ctx.lineWidth = brushSize * scale;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(x, y);
+    ctx.stroke();
+    lastPointRef.current = { x, y };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    lastPointRef.current = null;
+    drawTo(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (lastPointRef.current) drawTo(e);
+  };
+
+  const handlePointerUp = () => {
+    if (!lastPointRef.current) return;
+    lastPointRef.current = null;
+    emitMask();
+  };
+
+  const handleInvert = () => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const snapshot = document.createElement('canvas');
+    snapshot.width = canvas.width;
+    snapshot.height = canvas.height;
+    snapshot.getContext('2d')?.drawImage(canvas, 0, 0);
+    ctx.globalCompositeOperation = 'source-over';
+    ctx.fillStyle = MASK_COLOR;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.globalCompositeOperation = 'destination-out';
+    ctx.drawImage(snapshot, 0, 0);
+    emitMask();
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    onMaskChange(null);
+  };
+
+  const toolButtonClass = (active: boolean) =>
+    `px-3 py-1.5 text-sm rounded-md transition ${active ? 'bg-purple-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`;
+
+  return (
+    <div className="bg-gray-800/50 rounded-xl shadow-lg flex flex-col h-full">
+      <div className="bg-gray-700/50 px-4 py-2 rounded-t-xl flex flex-wrap items-center gap-2">
+        <h3 className="font-semibold text-gray-300 mr-auto">Paint the area to change</h3>
+        <button onClick={() => setTool('brush')} className={toolButtonClass(tool === 'brush')} aria-pressed={tool === 'brush'}>Brush</button>
+        <button onClick={() => setTool('eraser')} className={toolButtonClass(tool === 'eraser')} aria-pressed={tool === 'eraser'}>Eraser</button>
+        <label className="flex items-center gap-2 text-sm text-gray-400">
+          Size
+          <input
+            type="range"
+            min={5}
+            max={150}
+            value={brushSize}
+            onChange={e => setBrushSize(Number(e.target.value))}
+            className="accent-purple-500"
+          />
+        </label>
+        <button onClick={handleInvert} className={toolButtonClass(false)}>Invert</button>
+        <button onClick={handleClear} className={toolButtonClass(false)}>Clear</button>
+      </div>
+      <div className="p-4 flex-grow flex items-center justify-center">
+        <div className="relative inline-block">
+          <img src={imageUrl} alt="Image to mask" className="max-w-full max-h-[70vh] object-contain rounded-lg select-none" draggable={false} />
+          <canvas
+            ref={canvasRef}
+            className="absolute inset-0 w-full h-full opacity-50 cursor-crosshair touch-none rounded-lg"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerLeave={handlePointerUp}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MaskEditor;
@@ -0,0 +1,87 @@
+import React from 'react';
+import type { ReferenceImage, ReferenceRole } from '../types';
+
+interface ReferenceImagesPanelProps {
+  references: ReferenceImage[];
+  onChange: (references: ReferenceImage[]) => void;
+  disabled?: boolean;
+}
+
+const ROLE_LABELS: Record<ReferenceRole, string> = {
+  reference: 'Reference',
+  style: 'Style',
+};
+
+export const createReferenceImage = (file: File, role: ReferenceRole = 'reference'): ReferenceImage => ({
+  id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  file,
+  role,
+  previewUrl: URL.createObjectURL(file),
+});
+
+const ReferenceImagesPanel: React.FC<ReferenceImagesPanelProps> = ({ references, onChange, disabled = false }) => {
+  const handleAdd = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files ? Array.from<File>(e.target.files).filter(f => f.type.startsWith('image/')) : [];
+    e.target.value = '';
+    if (files.length > 0) {
+      onChange([...references, ...files.map(file => createReferenceImage(file))]);
+    }
+  };
+
+  const handleRemove = (reference: ReferenceImage) => {
+    URL.revokeObjectURL(reference.previewUrl);
+    onChange(references.filter(r => r.id !== reference.id));
+  };
+
+  const handleMove = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= references.length) return;
+    const next = [...references];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const handleRoleChange = (reference: ReferenceImage, role: ReferenceRole) => {
+    onChange(references.map(r => (r.id === reference.id ? { ...r, role } : r)));
+  };
+
+  const smallButton = 'px-2 py-1 text-xs rounded bg-gray-700 text-gray-300 hover:bg-gray-600 transition disabled:opacity-40 disabled:cursor-not-allowed';
+
+  return (
+    <div className="bg-gray-800/50 p-6 rounded-xl shadow-lg">
+      <h3 className="text-xl font-semibold mb-1 text-purple-300">Extra Images</h3>
+      <p className="text-xs text-gray-500 mb-4">
+        The image being edited is image 1. Added images follow in this order, so prompts can say e.g. "put the lamp from image 2 on the table".
+      </p>
+      {references.length > 0 && (
+        <ul className="space-y-2 mb-4">
+          {references.map((reference, index) => (
+            <li key={reference.id} className="flex items-center gap-2 p-2 rounded-lg bg-gray-700/50">
+              <img src={reference.previewUrl} alt={reference.file.name} className="w-12 h-12 object-cover rounded-md flex-shrink-0" />
+              <div className="flex-grow min-w-0 space-y-1">
+                <p className="text-xs text-gray-400 truncate">Image {index + 2} · {reference.file.name}</p>
+                <select
+                  value={reference.role}
+                  onChange={e => handleRoleChange(reference, e.target.value as ReferenceRole)}
+                  disabled={disabled}
+                  className="bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-xs text-white"
+                >
+                  {(Object.keys(ROLE_LABELS) as ReferenceRole[]).map(role => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+                </select>
+              </div>
+              <button onClick={() => handleMove(index, -1)} disabled={disabled || index === 0} className={smallButton} aria-label="Move up">↑</button>
+              <button onClick={() => handleMove(index, 1)} disabled={disabled || index === references.length - 1} className={smallButton} aria-label="Move down">↓</button>
+              <button onClick={() => handleRemove(reference)} disabled={disabled} className="px-2 py-1 text-xs rounded text-red-400 hover:bg-red-500/10 transition" aria-label={`Remove ${reference.file.name}`}>✕</button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <label className={`block w-full text-center text-sm py-2 rounded-lg border border-dashed border-gray-600 text-gray-400 transition ${disabled ? 'opacity-50' : 'hover:border-purple-400 hover:text-purple-300 cursor-pointer'}`}>
+        Add images
+        <input type="file" accept="image/*" multiple onChange={handleAdd} disabled={disabled} className="hidden" />
+      </label>
+    </div>
+  );
+};
+
+export default ReferenceImagesPanel;
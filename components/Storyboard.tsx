@@ -0,0 +1,88 @@
+import React from 'react';
+import type { VideoJob } from '../types';
+import { STATUS_STYLES } from './VideoJobsList';
+
+interface StoryboardProps {
+  shots: VideoJob[];
+  activeJobId: string | null;
+  playingJobId: string | null;
+  // True while a shot is being started, which also blocks regenerating others.
+  isBusy: boolean;
+  onSelect: (job: VideoJob) => void;
+  onMove: (index: number, offset: -1 | 1) => void;
+  onRegenerate: (job: VideoJob) => void;
+  onRemove: (job: VideoJob) => void;
+  onPlay: () => void;
+  onStop: () => void;
+}
+
+const controlClass = 'px-1.5 rounded text-gray-400 hover:text-white hover:bg-gray-600 disabled:opacity-30 disabled:hover:bg-transparent';
+
+/** The shots of a multi-shot video, in order, with controls to rearrange, redo and play them back. */
+const Storyboard: React.FC<StoryboardProps> = ({ shots, activeJobId, playingJobId, isBusy, onSelect, onMove, onRegenerate, onRemove, onPlay, onStop }) => {
+  const canPlay = shots.length > 0 && shots.every(shot => shot.status === 'succeeded');
+  return (
+    <div className="bg-gray-800/50 p-6 rounded-xl shadow-lg">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xl font-semibold text-purple-300">Storyboard</h3>
+        {playingJobId ? (
+          <button onClick={onStop} className="px-4 py-1.5 text-sm rounded-lg bg-gray-700 text-gray-300 hover:bg-gray-600 transition">Stop</button>
+        ) : (
+          <button
+            onClick={onPlay}
+            disabled={!canPlay}
+            title={canPlay ? 'Play every shot in order' : 'Every shot must finish before the sequence can play'}
+            className="px-4 py-1.5 text-sm rounded-lg bg-purple-600 hover:bg-purple-700 text-white font-semibold transition disabled:bg-gray-600"
+          >
+            ▶ Play all
+          </button>
+        )}
+      </div>
+      {shots.length === 0 ? (
+        <p className="text-sm text-gray-500 italic">Extend a finished video to start a sequence. Each new shot begins on the previous shot's last frame.</p>
+      ) : (
+        <ol className="flex gap-3 overflow-x-auto pb-2">
+          {shots.map((shot, index) => (
+            <li
+              key={shot.id}
+              className={`w-40 flex-shrink-0 rounded-lg p-2 ${shot.id === playingJobId ? 'bg-purple-600/50 ring-2 ring-purple-400' : shot.id === activeJobId ? 'bg-purple-600/30 ring-1 ring-purple-500' : 'bg-gray-700/50'}`}
+            >
+              <button onClick={() => onSelect(shot)} className="w-full text-left focus:outline-none">
+                {shot.image ? (
+                  <img src={`data:${shot.image.mimeType};base64,${shot.image.base64}`} alt="" className="w-full aspect-video rounded-md object-cover" />
+                ) : (
+                  <div className="w-full aspect-video rounded-md bg-gray-900 flex items-center justify-center text-gray-600 text-lg">▶</div>
+                )}
+                <p className="mt-1 text-xs text-gray-500">
+                  Shot {index + 1}
+                  <span className={`inline-block px-1.5 rounded ml-1 ${STATUS_STYLES[shot.status].className}`}>{STATUS_STYLES[shot.status].label}</span>
+                </p>
+                <p className="text-xs text-gray-300 line-clamp-2" title={shot.prompt}>{shot.prompt || 'Untitled shot'}</p>
+              </button>
+              <div className="mt-1 flex items-center justify-between text-sm">
+                <div>
+                  <button onClick={() => onMove(index, -1)} disabled={index === 0} className={controlClass} aria-label="Move earlier" title="Move earlier">←</button>
+                  <button onClick={() => onMove(index, 1)} disabled={index === shots.length - 1} className={controlClass} aria-label="Move later" title="Move later">→</button>
+                </div>
+                <div>
+                  <button
+                    onClick={() => onRegenerate(shot)}
+                    disabled={isBusy || shot.status === 'pending'}
+                    className={controlClass}
+                    aria-label="Regenerate shot"
+                    title="Generate this shot again"
+                  >
+                    ↻
+                  </button>
+                  <button onClick={() => onRemove(shot)} className={`${controlClass} text-red-400`} aria-label="Remove from storyboard" title="Remove from storyboard">✕</button>
+                </div>
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default Storyboard;
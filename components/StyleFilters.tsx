@@ -1,12 +1,23 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { STYLE_PRESETS } from '../constants/styles';
+import type { CustomStylePreset } from '../constants/styles';
+import { getCustomPresets, subscribeToPresets } from '../services/presetService';
+import StylePresetManager from './StylePresetManager';
 
 interface StyleFiltersProps {
   selectedStyle: string | null;
   onStyleSelect: (styleName: string | null) => void;
+  // Images offered as thumbnails when creating a preset.
+  thumbnailSources?: string[];
+  disabled?: boolean;
 }
 
-const StyleFilters: React.FC<StyleFiltersProps> = ({ selectedStyle, onStyleSelect }) => {
+const StyleFilters: React.FC<StyleFiltersProps> = ({ selectedStyle, onStyleSelect, thumbnailSources = [], disabled = false }) => {
+  const [customPresets, setCustomPresets] = useState<CustomStylePreset[]>(getCustomPresets);
+  const [isManagerOpen, setIsManagerOpen] = useState(false);
+
+  useEffect(() => subscribeToPresets(setCustomPresets), []);
+
   const handleSelect = (styleName: string) => {
     // If the clicked style is already selected, deselect it. Otherwise, select it.
     onStyleSelect(selectedStyle === styleName ? null : styleName);
@@ -14,17 +25,28 @@ const StyleFilters: React.FC<StyleFiltersProps> = ({ selectedStyle, onStyleSelec
 
   return (
     <div className="bg-gray-800/50 p-6 rounded-xl shadow-lg">
-      <h3 className="text-xl font-semibold mb-4 text-purple-300">Style Filters</h3>
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-xl font-semibold text-purple-300">Style Filters</h3>
+        <button
+          onClick={() => setIsManagerOpen(true)}
+          className="text-sm text-gray-400 hover:text-purple-300 transition-colors"
+        >
+          My Presets
+        </button>
+      </div>
       <div className="grid grid-cols-3 gap-3">
-        {STYLE_PRESETS.map((style) => (
+        {[...STYLE_PRESETS, ...customPresets].map((style) => (
           <button
             key={style.name}
             onClick={() => handleSelect(style.name)}
-            className={`relative group aspect-square rounded-lg overflow-hidden focus:outline-none transition-all duration-200 transform hover:scale-105 ${selectedStyle === style.name ? 'ring-2 ring-purple-500 scale-105' : 'ring-1 ring-transparent'}`}
+            disabled={disabled}
+            className={`relative group aspect-square rounded-lg overflow-hidden focus:outline-none transition-all duration-200 transform enabled:hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed ${selectedStyle === style.name ? 'ring-2 ring-purple-500 scale-105' : 'ring-1 ring-transparent'}`}
             aria-pressed={selectedStyle === style.name}
             aria-label={`Apply ${style.name} style`}
           >
-            <img src={style.thumbnailUrl} alt={style.name} className="w-full h-full object-cover" />
+            {style.thumbnailUrl
+              ? <img src={style.thumbnailUrl} alt={style.name} className="w-full h-full object-cover" />
+              : <div className="w-full h-full bg-gradient-to-br from-purple-500 to-pink-500" />}
             <div className="absolute inset-0 bg-black/40 group-hover:bg-black/20 transition-all duration-200"></div>
             <p className="absolute bottom-1 left-1/2 -translate-x-1/2 w-full text-center text-xs font-semibold text-white px-1">
               {style.name}
@@ -32,6 +54,11 @@ const StyleFilters: React.FC<StyleFiltersProps> = ({ selectedStyle, onStyleSelec
           </button>
         ))}
       </div>
+      <StylePresetManager
+        isOpen={isManagerOpen}
+        onClose={() => setIsManagerOpen(false)}
+        thumbnailSources={thumbnailSources}
+      />
     </div>
   );
 };
@@ -0,0 +1,240 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { CustomStylePreset } from '../constants/styles';
+import {
+  getCustomPresets,
+  saveCustomPresets,
+  subscribeToPresets,
+  createPresetId,
+  validatePresetName,
+  exportPresets,
+  importPresets,
+} from '../services/presetService';
+import { createThumbnail } from '../utils/imageUtils';
+
+interface StylePresetManagerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Images the user can pick a thumbnail from, e.g. the current edit and its history.
+  thumbnailSources: string[];
+}
+
+interface PresetDraft {
+  id: string | null; // null while creating a new preset
+  name: string;
+  promptSuffix: string;
+  thumbnailUrl: string;
+}
+
+const EMPTY_DRAFT: PresetDraft = { id: null, name: '', promptSuffix: '', thumbnailUrl: '' };
+
+const StylePresetManager: React.FC<StylePresetManagerProps> = ({ isOpen, onClose, thumbnailSources }) => {
+  const [presets, setPresets] = useState<CustomStylePreset[]>(getCustomPresets);
+  const [draft, setDraft] = useState<PresetDraft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => subscribeToPresets(setPresets), []);
+
+  // Handle Escape key to close the modal
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onClose();
+      }
+    };
+    if (isOpen) {
+      window.addEventListener('keydown', handleKeyDown);
+    }
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen, onClose]);
+
+  const persist = (next: CustomStylePreset[]) => {
+    try {
+      saveCustomPresets(next);
+      setError(null);
+      return true;
+    } catch (err) {
+      setError(`Failed to save presets: ${err instanceof Error ? err.message : 'An unknown error occurred.'}`);
+      return false;
+    }
+  };
+
+  const handleSaveDraft = () => {
+    if (!draft) return;
+    const nameError = validatePresetName(draft.name, presets, draft.id ?? undefined);
+    if (nameError) {
+      setError(nameError);
+      return;
+    }
+    if (!draft.promptSuffix.trim()) {
+      setError('Please describe the style to append to prompts.');
+      return;
+    }
+    const preset: CustomStylePreset = {
+      id: draft.id ?? createPresetId(),
+      name: draft.name.trim(),
+      promptSuffix: draft.promptSuffix.trim(),
+      thumbnailUrl: draft.thumbnailUrl,
+    };
+    const next = draft.id ? presets.map(p => (p.id === draft.id ? preset : p)) : [...presets, preset];
+    if (persist(next)) setDraft(null);
+  };
+
+  const handlePickThumbnail = async (url: string) => {
+    try {
+      const thumbnailUrl = await createThumbnail(url);
+      setDraft(prev => (prev ? { ...prev, thumbnailUrl } : prev));
+    } catch (err) {
+      setError(`Failed to create thumbnail: ${err instanceof Error ? err.message : 'An unknown error occurred.'}`);
+    }
+  };
+
+  const handleMove = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= presets.length) return;
+    const next = [...presets];
+    [next[index], next[target]] = [next[target], next[index]];
+    persist(next);
+  };
+
+  const handleDelete = (preset: CustomStylePreset) => {
+    if (!window.confirm(`Delete the "${preset.name}" preset?`)) return;
+    persist(presets.filter(p => p.id !== preset.id));
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportPresets(presets)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.download = 'style-presets.json';
+    link.href = url;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const { presets: merged, skipped } = importPresets(await file.text(), presets);
+      if (persist(merged)) {
+        setNotice(skipped.length > 0
+          ? `Imported presets. Skipped some: ${skipped.join(' ')}`
+          : 'Imported presets.');
+      }
+    } catch (err) {
+      setError(`Failed to import presets: ${err instanceof Error ? err.message : 'An unknown error occurred.'}`);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const secondaryButton = 'px-3 py-1.5 text-sm rounded-md bg-gray-700 text-gray-300 hover:bg-gray-600 transition disabled:opacity-40 disabled:cursor-not-allowed';
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 transition-opacity animate-[fade-in_0.2s_ease-out]"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="preset-manager-title"
+    >
+      <div
+        className="bg-gray-800 rounded-xl shadow-2xl p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto relative"
+        onClick={e => e.stopPropagation()} // Prevent click inside modal from closing it
+      >
+        <h2 id="preset-manager-title" className="text-2xl font-bold mb-4 text-purple-300">My Style Presets</h2>
+
+        {draft ? (
+          <div className="space-y-3">
+            <input
+              value={draft.name}
+              onChange={e => setDraft({ ...draft, name: e.target.value })}
+              placeholder="Preset name, e.g. House Style"
+              className="w-full bg-gray-700/80 border border-gray-600 rounded-md p-2 focus:ring-2 focus:ring-purple-500"
+            />
+            <textarea
+              value={draft.promptSuffix}
+              onChange={e => setDraft({ ...draft, promptSuffix: e.target.value })}
+              placeholder=". Style: soft pastel palette, studio lighting, clean background."
+              rows={3}
+              className="w-full bg-gray-700/80 border border-gray-600 rounded-md p-2 focus:ring-2 focus:ring-purple-500"
+            />
+            <div>
+              <p className="text-sm text-gray-400 mb-2">Thumbnail from your edits:</p>
+              {thumbnailSources.length === 0 ? (
+                <p className="text-xs text-gray-500 italic">Make an edit first to use it as a thumbnail.</p>
+              ) : (
+                <div className="flex gap-2 overflow-x-auto pb-1">
+                  {thumbnailSources.map(url => (
+                    <button key={url} onClick={() => handlePickThumbnail(url)} className="flex-shrink-0 rounded-md overflow-hidden ring-1 ring-gray-600 hover:ring-purple-500">
+                      <img src={url} alt="Thumbnail option" className="w-14 h-14 object-cover" />
+                    </button>
+                  ))}
+                </div>
+              )}
+              {draft.thumbnailUrl && (
+                <img src={draft.thumbnailUrl} alt="Selected thumbnail" className="mt-2 w-20 h-20 object-cover rounded-md ring-2 ring-purple-500" />
+              )}
+            </div>
+            <div className="flex justify-end gap-2">
+              <button onClick={() => { setDraft(null); setError(null); }} className={secondaryButton}>Cancel</button>
+              <button onClick={handleSaveDraft} className="px-3 py-1.5 text-sm rounded-md bg-purple-600 hover:bg-purple-700 text-white transition">Save Preset</button>
+            </div>
+          </div>
+        ) : (
+          <>
+            {presets.length === 0 ? (
+              <p className="text-sm text-gray-500 italic mb-4">You haven't created any presets yet.</p>
+            ) : (
+              <ul className="space-y-2 mb-4">
+                {presets.map((preset, index) => (
+                  <li key={preset.id} className="flex items-center gap-3 p-2 rounded-lg bg-gray-700/50">
+                    {preset.thumbnailUrl
+                      ? <img src={preset.thumbnailUrl} alt={preset.name} className="w-10 h-10 object-cover rounded-md flex-shrink-0" />
+                      : <div className="w-10 h-10 rounded-md bg-gradient-to-br from-purple-500 to-pink-500 flex-shrink-0" />}
+                    <div className="flex-grow min-w-0">
+                      <p className="text-sm font-semibold text-gray-200 truncate">{preset.name}</p>
+                      <p className="text-xs text-gray-400 truncate">{preset.promptSuffix}</p>
+                    </div>
+                    <button onClick={() => handleMove(index, -1)} disabled={index === 0} className={secondaryButton} aria-label={`Move ${preset.name} up`}>↑</button>
+                    <button onClick={() => handleMove(index, 1)} disabled={index === presets.length - 1} className={secondaryButton} aria-label={`Move ${preset.name} down`}>↓</button>
+                    <button onClick={() => setDraft({ ...preset })} className={secondaryButton}>Edit</button>
+                    <button onClick={() => handleDelete(preset)} className="px-3 py-1.5 text-sm rounded-md text-red-400 hover:bg-red-500/10 transition">Delete</button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="flex flex-wrap gap-2">
+              <button onClick={() => { setDraft(EMPTY_DRAFT); setNotice(null); }} className="px-3 py-1.5 text-sm rounded-md bg-purple-600 hover:bg-purple-700 text-white transition">New Preset</button>
+              <button onClick={() => importInputRef.current?.click()} className={secondaryButton}>Import JSON</button>
+              <button onClick={handleExport} disabled={presets.length === 0} className={secondaryButton}>Export JSON</button>
+              <input ref={importInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+            </div>
+          </>
+        )}
+
+        {error && <p className="mt-4 text-sm bg-red-900/50 border border-red-700 text-red-300 p-3 rounded-md">{error}</p>}
+        {notice && !error && <p className="mt-4 text-sm text-green-400">{notice}</p>}
+
+        <button
+          onClick={onClose}
+          className="absolute top-3 right-3 p-1 rounded-full text-gray-500 hover:text-gray-200 hover:bg-gray-700 transition-colors"
+          aria-label="Close"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default StylePresetManager;
@@ -0,0 +1,48 @@
+import React from 'react';
+import type { ToolCall } from '../types';
+
+interface ToolCallStepsProps {
+  toolCalls: ToolCall[];
+}
+
+const formatValue = (value: unknown) => JSON.stringify(value, null, 2);
+
+// One-line preview of the arguments, e.g. `expression: "2 ^ 10"`.
+const previewArgs = (args: Record<string, unknown>) =>
+  Object.entries(args).map(([key, value]) => `${key}: ${JSON.stringify(value)}`).join(', ');
+
+const ToolCallSteps: React.FC<ToolCallStepsProps> = ({ toolCalls }) => (
+  <div className="mb-2 space-y-1">
+    {toolCalls.map((call, index) => {
+      const isRunning = call.result === undefined && call.error === undefined;
+      return (
+        <details key={index} className="group rounded-md bg-gray-800/70 ring-1 ring-gray-600 text-xs">
+          <summary className="flex items-center gap-2 px-2 py-1.5 cursor-pointer select-none list-none">
+            <span className="text-gray-500 transition-transform group-open:rotate-90">▶</span>
+            <span className={isRunning ? 'text-yellow-300' : call.error ? 'text-red-400' : 'text-green-400'}>
+              {isRunning ? '…' : call.error ? '✕' : '✓'}
+            </span>
+            <span className="font-mono text-purple-300">{call.name}</span>
+            <span className="text-gray-500 truncate">{previewArgs(call.args)}</span>
+          </summary>
+          <div className="px-2 pb-2 space-y-2">
+            <div>
+              <p className="text-gray-400 mb-0.5">Arguments</p>
+              <pre className="bg-gray-900 rounded p-2 overflow-x-auto text-gray-300">{formatValue(call.args)}</pre>
+            </div>
+            {!isRunning && (
+              <div>
+                <p className="text-gray-400 mb-0.5">{call.error ? 'Error' : 'Result'}</p>
+                <pre className={`bg-gray-900 rounded p-2 overflow-x-auto ${call.error ? 'text-red-300' : 'text-gray-300'}`}>
+                  {call.error ?? formatValue(call.result)}
+                </pre>
+              </div>
+            )}
+          </div>
+        </details>
+      );
+    })}
+  </div>
+);
+
+export default ToolCallSteps;
@@ -0,0 +1,50 @@
+import React from 'react';
+import type { GalleryVideo } from '../types';
+
+interface VideoGalleryProps {
+  videos: GalleryVideo[];
+  activeVideoId: string | null;
+  onPlay: (video: GalleryVideo) => void;
+  onDownload: (video: GalleryVideo) => void;
+  onReusePrompt: (video: GalleryVideo) => void;
+  onDelete: (video: GalleryVideo) => void;
+}
+
+const actionClass = 'px-2 py-0.5 rounded text-xs text-gray-300 bg-gray-800/80 hover:bg-gray-600';
+
+/** Finished videos saved in this browser, shown by their posters. */
+const VideoGallery: React.FC<VideoGalleryProps> = ({ videos, activeVideoId, onPlay, onDownload, onReusePrompt, onDelete }) => (
+  <div className="bg-gray-800/50 p-6 rounded-xl shadow-lg">
+    <h3 className="text-xl font-semibold mb-4 text-purple-300">Gallery</h3>
+    {videos.length === 0 ? (
+      <p className="text-sm text-gray-500 italic">Finished videos are saved here, in this browser.</p>
+    ) : (
+      <ul className="grid grid-cols-2 gap-3 max-h-[32rem] overflow-y-auto pr-2">
+        {videos.map(video => (
+          <li key={video.id} className={`rounded-lg overflow-hidden group ${video.id === activeVideoId ? 'ring-2 ring-purple-500' : 'bg-gray-700/50'}`}>
+            <button onClick={() => onPlay(video)} className="relative block w-full focus:outline-none" title={video.prompt}>
+              {video.posterUrl ? (
+                <img src={video.posterUrl} alt="" className="w-full aspect-video object-cover" />
+              ) : (
+                <div className="w-full aspect-video bg-gray-900 flex items-center justify-center text-gray-600 text-lg">▶</div>
+              )}
+              <span className="absolute inset-0 flex items-center justify-center text-3xl text-white opacity-0 group-hover:opacity-100 bg-black/30 transition-opacity">▶</span>
+              <span className="absolute bottom-1 right-1 px-1 rounded bg-black/60 text-[10px] text-gray-300">{video.aspectRatio}</span>
+            </button>
+            <div className="p-2">
+              <p className="text-xs text-gray-300 truncate">{video.prompt || 'Untitled video'}</p>
+              <p className="text-[11px] text-gray-500">{new Date(video.createdAt).toLocaleString()}</p>
+              <div className="mt-1 flex flex-wrap gap-1">
+                <button onClick={() => onDownload(video)} className={actionClass}>Download</button>
+                <button onClick={() => onReusePrompt(video)} className={actionClass}>Reuse prompt</button>
+                <button onClick={() => onDelete(video)} className={`${actionClass} text-red-400`} aria-label="Delete video">✕</button>
+              </div>
+            </div>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+export default VideoGallery;
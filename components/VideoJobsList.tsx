@@ -0,0 +1,60 @@
+import React from 'react';
+import type { VideoJob, VideoJobStatus } from '../types';
+
+interface VideoJobsListProps {
+  jobs: VideoJob[];
+  activeJobId: string | null;
+  onSelect: (job: VideoJob) => void;
+  onDelete: (job: VideoJob) => void;
+}
+
+export const STATUS_STYLES: Record<VideoJobStatus, { label: string; className: string }> = {
+  pending: { label: 'Generating', className: 'bg-yellow-500/20 text-yellow-300' },
+  succeeded: { label: 'Finished', className: 'bg-green-500/20 text-green-300' },
+  failed: { label: 'Failed', className: 'bg-red-500/20 text-red-300' },
+  cancelled: { label: 'Cancelled', className: 'bg-gray-500/20 text-gray-300' },
+};
+
+const VideoJobsList: React.FC<VideoJobsListProps> = ({ jobs, activeJobId, onSelect, onDelete }) => (
+  <div className="bg-gray-800/50 p-6 rounded-xl shadow-lg">
+    <h3 className="text-xl font-semibold mb-4 text-purple-300">Video Jobs</h3>
+    {jobs.length === 0 ? (
+      <p className="text-sm text-gray-500 italic">Videos being generated appear here. They keep running if you leave or reload the page.</p>
+    ) : (
+      <ul className="space-y-2 max-h-96 overflow-y-auto pr-2">
+        {jobs.map(job => (
+          <li
+            key={job.id}
+            className={`flex items-center gap-3 p-2 rounded-lg group ${job.id === activeJobId ? 'bg-purple-600/30 ring-1 ring-purple-500' : 'bg-gray-700/50'}`}
+          >
+            <button onClick={() => onSelect(job)} className="flex-grow flex items-center gap-3 text-left min-w-0 focus:outline-none">
+              {job.image ? (
+                <img src={`data:${job.image.mimeType};base64,${job.image.base64}`} alt="" className="w-12 h-12 flex-shrink-0 rounded-md object-cover" />
+              ) : (
+                <div className="w-12 h-12 flex-shrink-0 rounded-md bg-gray-900 flex items-center justify-center text-gray-600 text-lg">▶</div>
+              )}
+              <div className="min-w-0">
+                <p className="text-sm text-gray-300 truncate group-hover:text-purple-300 transition-colors">{job.prompt || 'Untitled video'}</p>
+                <p className="text-xs text-gray-500 truncate">
+                  <span className={`inline-block px-1.5 rounded mr-1 ${STATUS_STYLES[job.status].className}`}>{STATUS_STYLES[job.status].label}</span>
+                  {new Date(job.createdAt).toLocaleString()} · {job.aspectRatio}
+                </p>
+                {job.error && <p className="text-xs text-red-400 truncate" title={job.error}>{job.error}</p>}
+              </div>
+            </button>
+            <button
+              onClick={() => onDelete(job)}
+              className="p-1.5 rounded-full text-red-400 hover:bg-red-500/20 opacity-0 group-hover:opacity-100 transition-opacity"
+              aria-label="Remove job"
+              title={job.status === 'pending' ? 'Stop following this job' : 'Remove'}
+            >
+              ✕
+            </button>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+export default VideoJobsList;
@@ -0,0 +1,118 @@
+import React, { useEffect, useRef } from 'react';
+
+// Zoom is a multiple of the fitted size; x/y are the pan offset in screen pixels.
+export interface ViewTransform {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+export const FIT_VIEW: ViewTransform = { scale: 1, x: 0, y: 0 };
+
+const MIN_SCALE = 1;
+const MAX_SCALE = 16;
+
+interface ZoomPanViewportProps {
+  view: ViewTransform;
+  onViewChange: (view: ViewTransform) => void;
+  // Called with the style to put on each layer that should zoom and pan. Several layers
+  // (e.g. a before and after image) can share one viewport and stay aligned.
+  children: (layerStyle: React.CSSProperties) => React.ReactNode;
+  className?: string;
+}
+
+const clampScale = (scale: number) => Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+
+const ZoomPanViewport: React.FC<ZoomPanViewportProps> = ({ view, onViewChange, children, className = '' }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ pointerX: number; pointerY: number; startX: number; startY: number } | null>(null);
+  // The wheel listener is registered once, so it reads the latest props through a ref.
+  const latestRef = useRef({ view, onViewChange });
+  latestRef.current = { view, onViewChange };
+
+  // Zooms so the point under (clientX, clientY) stays put.
+  const zoomAt = (nextScale: number, clientX?: number, clientY?: number) => {
+    const { view: current, onViewChange: emit } = latestRef.current;
+    const container = containerRef.current;
+    const scale = clampScale(nextScale);
+    if (!container || scale === MIN_SCALE) {
+      emit({ scale, x: 0, y: 0 });
+      return;
+    }
+    const rect = container.getBoundingClientRect();
+    const px = (clientX ?? rect.left + rect.width / 2) - (rect.left + rect.width / 2);
+    const py = (clientY ?? rect.top + rect.height / 2) - (rect.top + rect.height / 2);
+    const ratio = scale / current.scale;
+    emit({ scale, x: px - (px - current.x) * ratio, y: py - (py - current.y) * ratio });
+  };
+
+  // React registers wheel handlers as passive, which would let the page scroll while zooming.
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const factor = Math.exp(-e.deltaY * 0.0015);
+      zoomAt(latestRef.current.view.scale * factor, e.clientX, e.clientY);
+    };
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+    // zoomAt only reads refs, so the listener never needs to be replaced.
+  }, []);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (view.scale === MIN_SCALE) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { pointerX: e.clientX, pointerY: e.clientY, startX: view.x, startY: view.y };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    onViewChange({
+      scale: view.scale,
+      x: drag.startX + e.clientX - drag.pointerX,
+      y: drag.startY + e.clientY - drag.pointerY,
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  // 1:1 shows one image pixel per screen pixel for the first image in the viewport.
+  const handleActualSize = () => {
+    const img = containerRef.current?.querySelector('img');
+    if (!img || img.offsetWidth === 0) return;
+    zoomAt(img.naturalWidth / img.offsetWidth);
+  };
+
+  const layerStyle: React.CSSProperties = {
+    transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})`,
+    transformOrigin: 'center center',
+  };
+
+  const controlClass = 'px-2 py-1 text-xs font-semibold rounded bg-gray-900/80 text-gray-200 hover:bg-purple-600 transition-colors';
+
+  return (
+    <div
+      ref={containerRef}
+      className={`relative overflow-hidden touch-none select-none ${view.scale > MIN_SCALE ? 'cursor-grab active:cursor-grabbing' : ''} ${className}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onDoubleClick={() => onViewChange(FIT_VIEW)}
+    >
+      {children(layerStyle)}
+      <div className="absolute top-2 right-2 flex gap-1 z-10" onPointerDown={e => e.stopPropagation()}>
+        <button onClick={() => zoomAt(view.scale / 1.5)} className={controlClass} aria-label="Zoom out">−</button>
+        <button onClick={() => zoomAt(view.scale * 1.5)} className={controlClass} aria-label="Zoom in">+</button>
+        <button onClick={() => onViewChange(FIT_VIEW)} className={controlClass}>Fit</button>
+        <button onClick={handleActualSize} className={controlClass}>1:1</button>
+      </div>
+    </div>
+  );
+};
+
+export default ZoomPanViewport;
@@ -5,6 +5,11 @@ export interface StylePreset {
   thumbnailUrl: string; // A representative image for the style
 }
 
+// A preset created by the user. Its thumbnail is a small data URL cut from one of their edits.
+export interface CustomStylePreset extends StylePreset {
+  id: string;
+}
+
 export const STYLE_PRESETS: StylePreset[] = [
   { 
     name: 'Cinematic', 
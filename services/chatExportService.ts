@@ -0,0 +1,282 @@
+// services/chatExportService.ts
+import React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import type { ChatAttachment, ChatMessage, Conversation, GroundingChunk, GroundingCitation, PlaceReview, ToolCall } from '../types';
+import MarkdownRenderer from '../components/MarkdownRenderer';
+import { CHAT_MODES } from './geminiService';
+import { createConversationId } from './conversationService';
+import { groundingUri, insertCitationMarkers, insertCitations, sourceDomain, sourceTitle } from '../utils/citationUtils';
+
+export type ChatExportFormat = 'markdown' | 'html' | 'json';
+
+const EXPORT_FORMAT_VERSION = 1;
+
+// Shape of an exported JSON conversation; it holds everything needed to continue the chat.
+interface ConversationExportFile {
+  version: number;
+  conversation: Conversation;
+}
+
+const ROLE_LABELS: Record<ChatMessage['role'], string> = { user: 'You', model: 'Gemini' };
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+
+// Positions of the sources a message cites inline; the rest are listed after it.
+const citedSources = (message: ChatMessage) => new Set((message.citations ?? []).flatMap(c => c.sources));
+
+function toMarkdown(conversation: Conversation): string {
+  // Footnotes are numbered across the whole conversation, one per distinct source.
+  const footnotes: GroundingChunk[] = [];
+  const footnoteFor = (chunk: GroundingChunk) => {
+    const existing = footnotes.findIndex(c => groundingUri(c) === groundingUri(chunk));
+    return (existing >= 0 ? existing : footnotes.push(chunk) - 1) + 1;
+  };
+
+  const lines = [`# ${conversation.title || 'Chat'}`, '', `_${conversation.mode} mode · exported ${formatDate(Date.now())}_`, ''];
+  if (conversation.systemInstruction.trim()) {
+    lines.push(`> **System instruction:** ${conversation.systemInstruction.trim().split('\n').join('\n> ')}`, '');
+  }
+  for (const message of conversation.messages) {
+    lines.push(`## ${ROLE_LABELS[message.role]}`, '');
+    if (message.attachments?.length) {
+      lines.push(`_Attached: ${message.attachments.map(a => a.name).join(', ')}_`, '');
+    }
+    message.toolCalls?.forEach(call => {
+      const outcome = call.error ? `error: ${call.error}` : JSON.stringify(call.result) ?? 'no result';
+      lines.push(`- Tool \`${call.name}\` ${JSON.stringify(call.args)} → ${outcome}`);
+    });
+    if (message.toolCalls?.length) lines.push('');
+
+    lines.push(insertCitationMarkers(message.text, message.citations ?? [], source => {
+      const chunk = message.groundingChunks?.[source];
+      return chunk && groundingUri(chunk) ? `[^${footnoteFor(chunk)}]` : '';
+    }), '');
+
+    const cited = citedSources(message);
+    const uncited = (message.groundingChunks ?? []).filter((c, i) => groundingUri(c) && !cited.has(i));
+    if (uncited.length > 0) {
+      lines.push(`Sources: ${uncited.map(c => `[^${footnoteFor(c)}]`).join(' ')}`, '');
+    }
+  }
+  footnotes.forEach((chunk, i) => lines.push(`[^${i + 1}]: [${sourceTitle(chunk)}](${groundingUri(chunk)})`));
+  return lines.join('\n').trimEnd() + '\n';
+}
+
+// Styles for the exported page; the app's own classes are Tailwind utilities that don't exist there.
+const HTML_STYLES = `
+body { margin: 0; background: #111827; color: #e5e7eb; font: 15px/1.6 system-ui, sans-serif; }
+main { max-width: 820px; margin: 0 auto; padding: 32px 16px; }
+h1 { color: #d8b4fe; margin-bottom: 4px; }
+.meta, .instruction { color: #9ca3af; font-size: 13px; }
+.message { margin: 16px 0; padding: 12px 16px; border-radius: 8px; background: #374151; }
+.message.user { background: #6b21a8; margin-left: 15%; white-space: pre-wrap; }
+.message h2 { margin: 0 0 6px; font-size: 12px; text-transform: uppercase; color: #d1d5db; }
+.attachments img { max-width: 160px; max-height: 160px; border-radius: 6px; margin-right: 8px; }
+.attachments span { display: inline-block; font-size: 12px; padding: 2px 8px; border-radius: 4px; background: #1f2937; margin-right: 6px; }
+.tools { font-size: 12px; color: #d1d5db; }
+a { color: #60a5fa; }
+a.align-super { vertical-align: super; font-size: 10px; text-decoration: none; margin-left: 2px; padding: 0 4px; border-radius: 4px; background: #4b5563; }
+pre { background: #111827; padding: 12px; border-radius: 6px; overflow-x: auto; }
+code { font-family: ui-monospace, monospace; font-size: 13px; }
+table { border-collapse: collapse; } th, td { border: 1px solid #4b5563; padding: 4px 8px; }
+button { display: none; }
+.sources { font-size: 12px; border-top: 1px solid #4b5563; margin-top: 8px; padding-top: 8px; }
+.sources span { color: #9ca3af; }
+.hljs-keyword, .hljs-built_in { color: #ff7b72; } .hljs-string { color: #a5d6ff; } .hljs-comment { color: #8b949e; }
+.hljs-number, .hljs-literal { color: #79c0ff; } .hljs-title { color: #d2a8ff; }
+.katex-html { display: none; } /* Browsers render the MathML copy natively. */
+`;
+
+// Attachments come from imported files too, so only well-formed images are inlined into the page.
+const isInlineImage = (attachment: ChatAttachment) =>
+  /^image\/[\w.+-]+$/.test(attachment.mimeType) && /^[A-Za-z0-9+/=]+$/.test(attachment.base64);
+
+function toHtml(conversation: Conversation): string {
+  const sections = conversation.messages.map(message => {
+    const attachments = message.attachments?.length
+      ? `<div class="attachments">${message.attachments.map(a => isInlineImage(a)
+        ? `<img src="data:${escapeHtml(a.mimeType)};base64,${escapeHtml(a.base64)}" alt="${escapeHtml(a.name)}">`
+        : `<span>${escapeHtml(a.name)}</span>`).join('')}</div>`
+      : '';
+    const tools = message.toolCalls?.length
+      ? `<ul class="tools">${message.toolCalls.map(call =>
+        `<li><code>${escapeHtml(call.name)}</code> ${escapeHtml(JSON.stringify(call.args))} → ${escapeHtml(call.error ?? JSON.stringify(call.result) ?? 'no result')}</li>`).join('')}</ul>`
+      : '';
+    const body = message.role === 'model'
+      ? renderToStaticMarkup(React.createElement(MarkdownRenderer, {
+        text: message.citations ? insertCitations(message.text, message.citations, message.groundingChunks ?? []) : message.text,
+      }))
+      : escapeHtml(message.text);
+    const chunks = message.groundingChunks ?? [];
+    const sources = chunks.length > 0
+      ? `<ol class="sources">${chunks.map(c =>
+        `<li><a href="${escapeHtml(groundingUri(c) ?? '')}">${escapeHtml(sourceTitle(c))}</a> <span>${escapeHtml(sourceDomain(c))}</span></li>`).join('')}</ol>`
+      : '';
+    return `<section class="message ${message.role}"><h2>${ROLE_LABELS[message.role]}</h2>${attachments}${tools}${body}${sources}</section>`;
+  });
+
+  const title = escapeHtml(conversation.title || 'Chat');
+  const instruction = conversation.systemInstruction.trim()
+    ? `<p class="instruction"><strong>System instruction:</strong> ${escapeHtml(conversation.systemInstruction.trim())}</p>`
+    : '';
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${title}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<main>
+<h1>${title}</h1>
+<p class="meta">${escapeHtml(conversation.mode)} mode · exported ${escapeHtml(formatDate(Date.now()))}</p>
+${instruction}
+${sections.join('\n')}
+</main>
+</body>
+</html>
+`;
+}
+
+const FORMATS: Record<ChatExportFormat, { extension: string; mimeType: string; serialize: (conversation: Conversation) => string }> = {
+  markdown: { extension: 'md', mimeType: 'text/markdown', serialize: toMarkdown },
+  html: { extension: 'html', mimeType: 'text/html', serialize: toHtml },
+  json: {
+    extension: 'json',
+    mimeType: 'application/json',
+    serialize: conversation => JSON.stringify({ version: EXPORT_FORMAT_VERSION, conversation } satisfies ConversationExportFile, null, 2),
+  },
+};
+
+/** Serializes a conversation and suggests a file name for it. */
+export function exportConversation(conversation: Conversation, format: ChatExportFormat): { blob: Blob; fileName: string } {
+  const { extension, mimeType, serialize } = FORMATS[format];
+  const baseName = (conversation.title || 'chat').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60) || 'chat';
+  return { blob: new Blob([serialize(conversation)], { type: mimeType }), fileName: `${baseName}.${extension}` };
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isWebUrl = (uri: unknown): uri is string => typeof uri === 'string' && /^https?:\/\//i.test(uri);
+
+const optionalString = (value: unknown) => (typeof value === 'string' ? value : undefined);
+
+function parseAttachment(value: unknown): ChatAttachment {
+  if (!isRecord(value) || typeof value.base64 !== 'string' || typeof value.mimeType !== 'string'
+    || typeof value.name !== 'string' || typeof value.size !== 'number') {
+    throw new Error("The file contains a malformed attachment.");
+  }
+  return { base64: value.base64, mimeType: value.mimeType, name: value.name, size: value.size };
+}
+
+function parseToolCall(value: unknown): ToolCall | null {
+  if (!isRecord(value) || typeof value.name !== 'string' || !isRecord(value.args)) return null;
+  return {
+    name: value.name,
+    args: value.args,
+    ...('result' in value && { result: value.result }),
+    ...(typeof value.error === 'string' && { error: value.error }),
+  };
+}
+
+function parseCitation(value: unknown): GroundingCitation | null {
+  if (!isRecord(value) || typeof value.index !== 'number' || !Array.isArray(value.sources)) return null;
+  const sources = value.sources;
+  return sources.every((source): source is number => typeof source === 'number') ? { index: value.index, sources } : null;
+}
+
+function parseReview(value: unknown): PlaceReview | null {
+  if (!isRecord(value) || typeof value.text !== 'string') return null;
+  return {
+    text: value.text,
+    author: optionalString(value.author),
+    uri: isWebUrl(value.uri) ? value.uri : undefined,
+    publishedAgo: optionalString(value.publishedAgo),
+  };
+}
+
+// Links end up in the page, so only sources with web URLs are kept.
+function parseGroundingChunk(value: unknown): GroundingChunk | null {
+  if (!isRecord(value)) return null;
+  const { web, maps } = value;
+  if (isRecord(web) && isWebUrl(web.uri)) {
+    return { web: { uri: web.uri, title: optionalString(web.title) ?? '' } };
+  }
+  if (isRecord(maps) && isWebUrl(maps.uri)) {
+    const reviews = Array.isArray(maps.reviews)
+      ? maps.reviews.map(parseReview).filter((review): review is PlaceReview => review !== null)
+      : undefined;
+    return { maps: { uri: maps.uri, title: optionalString(maps.title) ?? '', text: optionalString(maps.text), reviews } };
+  }
+  return null;
+}
+
+// Keeps the valid entries of an optional array field; anything else becomes undefined.
+function parseList<T>(value: unknown, parse: (item: unknown) => T | null): T[] | undefined {
+  return Array.isArray(value) ? value.map(parse).filter((item): item is T => item !== null) : undefined;
+}
+
+function parseMessage(value: unknown): ChatMessage {
+  if (!isRecord(value) || (value.role !== 'user' && value.role !== 'model') || typeof value.text !== 'string') {
+    throw new Error("The file contains a malformed message.");
+  }
+  if (value.attachments !== undefined && !Array.isArray(value.attachments)) {
+    throw new Error("The file contains a malformed attachment.");
+  }
+  const attachments = Array.isArray(value.attachments) ? value.attachments.map(parseAttachment) : undefined;
+  const toolCalls = parseList(value.toolCalls, parseToolCall);
+  const groundingChunks = parseList(value.groundingChunks, parseGroundingChunk);
+  // Citations point into the original source list, so they can't survive dropped sources.
+  const citations = Array.isArray(value.groundingChunks) && groundingChunks?.length === value.groundingChunks.length
+    ? parseList(value.citations, parseCitation)
+    : undefined;
+  return {
+    role: value.role,
+    text: value.text,
+    ...(attachments && { attachments }),
+    ...(toolCalls && { toolCalls }),
+    ...(groundingChunks && { groundingChunks }),
+    ...(citations && { citations }),
+    ...(typeof value.searchEntryPoint === 'string' && { searchEntryPoint: value.searchEntryPoint }),
+    ...(typeof value.truncated === 'boolean' && { truncated: value.truncated }),
+  };
+}
+
+/**
+ * Reads a conversation from an exported JSON file. It gets a new id, so importing the same
+ * file twice gives two independent chats.
+ */
+export function importConversation(json: string): Conversation {
+  let file: unknown;
+  try {
+    file = JSON.parse(json);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+  const conversation = isRecord(file) ? file.conversation : undefined;
+  if (!isRecord(file) || !isRecord(conversation) || !Array.isArray(conversation.messages)) {
+    throw new Error("The file does not contain a chat conversation.");
+  }
+  if (typeof file.version === 'number' && file.version > EXPORT_FORMAT_VERSION) {
+    throw new Error("The conversation was exported by a newer version of the app.");
+  }
+  const { summary, mode } = conversation;
+  const validSummary = isRecord(summary) && typeof summary.text === 'string' && typeof summary.messageCount === 'number'
+    ? { text: summary.text, messageCount: summary.messageCount }
+    : null;
+  return {
+    id: createConversationId(),
+    title: typeof conversation.title === 'string' && conversation.title.trim() ? conversation.title : 'Imported chat',
+    mode: CHAT_MODES.find(m => m === mode) ?? 'flash',
+    systemInstruction: typeof conversation.systemInstruction === 'string' ? conversation.systemInstruction : '',
+    summary: validSummary,
+    messages: conversation.messages.map(parseMessage),
+    createdAt: typeof conversation.createdAt === 'number' ? conversation.createdAt : Date.now(),
+    updatedAt: Date.now(),
+  };
+}
@@ -0,0 +1,320 @@
+// services/chatToolService.ts
+import { Type, FunctionDeclaration } from "@google/genai";
+import { searchConversations } from './conversationService';
+import { getGenerations } from './generationHistoryService';
+
+interface ChatTool {
+  declaration: FunctionDeclaration;
+  run: (args: Record<string, unknown>) => Promise<unknown> | unknown;
+}
+
+// --- Calculator ---
+
+const MATH_FUNCTIONS: Record<string, (x: number) => number> = {
+  sqrt: Math.sqrt, abs: Math.abs, round: Math.round, floor: Math.floor, ceil: Math.ceil,
+  sin: Math.sin, cos: Math.cos, tan: Math.tan, asin: Math.asin, acos: Math.acos, atan: Math.atan,
+  ln: Math.log, log: Math.log10, log2: Math.log2, exp: Math.exp,
+};
+
+const MATH_CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+/**
+ * Evaluates an arithmetic expression with + - * / % ^, parentheses, the functions in
+ * MATH_FUNCTIONS and the constants pi and e. Nothing is passed to `eval`.
+ */
+export function evaluateExpression(expression: string): number {
+  const tokens = expression.toLowerCase().match(/\d*\.?\d+(?:e[+-]?\d+)?|[a-z_][a-z0-9_]*|\*\*|[-+*/%^(),]|\S/g) ?? [];
+  let position = 0;
+  const peek = () => tokens[position];
+  const next = () => tokens[position++];
+  const expect = (token: string) => {
+    if (next() !== token) throw new Error(`Expected "${token}" in expression.`);
+  };
+
+  // Precedence, lowest first: + -, then * / %, then unary minus, then ^ (right-associative).
+  const parseSum = (): number => {
+    let value = parseProduct();
+    while (peek() === '+' || peek() === '-') {
+      value = next() === '+' ? value + parseProduct() : value - parseProduct();
+    }
+    return value;
+  };
+  const parseProduct = (): number => {
+    let value = parseUnary();
+    while (peek() === '*' || peek() === '/' || peek() === '%') {
+      const operator = next();
+      const right = parseUnary();
+      value = operator === '*' ? value * right : operator === '/' ? value / right : value % right;
+    }
+    return value;
+  };
+  const parseUnary = (): number => {
+    if (peek() === '-') { next(); return -parseUnary(); }
+    if (peek() === '+') { next(); return parseUnary(); }
+    return parsePower();
+  };
+  const parsePower = (): number => {
+    const base = parseAtom();
+    if (peek() === '^' || peek() === '**') {
+      next();
+      return base ** parseUnary();
+    }
+    return base;
+  };
+  const parseAtom = (): number => {
+    const token = next();
+    if (token === undefined) throw new Error("Unexpected end of expression.");
+    if (token === '(') {
+      const value = parseSum();
+      expect(')');
+      return value;
+    }
+    if (/^\d*\.?\d/.test(token)) return parseFloat(token);
+    if (Object.hasOwn(MATH_CONSTANTS, token)) return MATH_CONSTANTS[token];
+    if (Object.hasOwn(MATH_FUNCTIONS, token)) {
+      expect('(');
+      const argument = parseSum();
+      expect(')');
+      return MATH_FUNCTIONS[token](argument);
+    }
+    throw new Error(`Unknown token "${token}" in expression.`);
+  };
+
+  const result = parseSum();
+  if (position < tokens.length) throw new Error(`Unexpected "${peek()}" in expression.`);
+  if (!Number.isFinite(result)) throw new Error("The result is not a finite number.");
+  return result;
+}
+
+// --- Units and currency ---
+
+// Factors to the first unit listed in each group. Temperature is handled separately.
+const UNIT_GROUPS: Record<string, Record<string, number>> = {
+  length: { m: 1, km: 1000, cm: 0.01, mm: 0.001, mi: 1609.344, yd: 0.9144, ft: 0.3048, in: 0.0254, nmi: 1852 },
+  mass: { kg: 1, g: 0.001, mg: 0.000001, t: 1000, lb: 0.45359237, oz: 0.028349523125, st: 6.35029318 },
+  volume: { l: 1, ml: 0.001, m3: 1000, gal: 3.785411784, qt: 0.946352946, pt: 0.473176473, cup: 0.2365882365, floz: 0.0295735295625 },
+  area: { m2: 1, km2: 1_000_000, cm2: 0.0001, ha: 10_000, acre: 4046.8564224, ft2: 0.09290304, mi2: 2_589_988.110336 },
+  speed: { 'm/s': 1, 'km/h': 1 / 3.6, mph: 0.44704, knot: 1852 / 3600 },
+  time: { s: 1, min: 60, h: 3600, day: 86_400, week: 604_800 },
+  data: { b: 1, kb: 1000, mb: 1e6, gb: 1e9, tb: 1e12, kib: 1024, mib: 1024 ** 2, gib: 1024 ** 3 },
+};
+
+const TO_CELSIUS: Record<string, (v: number) => number> = { c: v => v, f: v => (v - 32) * 5 / 9, k: v => v - 273.15 };
+const FROM_CELSIUS: Record<string, (v: number) => number> = { c: v => v, f: v => v * 9 / 5 + 32, k: v => v + 273.15 };
+
+// Fixed reference rates (units per US dollar); there is no live exchange-rate feed.
+const RATES_AS_OF = '2025-01-01';
+const USD_RATES: Record<string, number> = {
+  USD: 1, EUR: 0.96, GBP: 0.8, JPY: 157, CNY: 7.3, INR: 85.6, CAD: 1.44, AUD: 1.61, CHF: 0.91,
+  SEK: 11, NOK: 11.4, DKK: 7.2, PLN: 4.1, MXN: 20.8, BRL: 6.2, KRW: 1470, SGD: 1.36, HKD: 7.77, NZD: 1.78, ZAR: 18.8,
+};
+
+const UNIT_SYMBOLS = [...Object.values(UNIT_GROUPS).flatMap(Object.keys), ...Object.keys(TO_CELSIUS)];
+
+// Spelled-out names the model tends to use instead of symbols, in the singular.
+const UNIT_ALIASES: Record<string, string> = {
+  meter: 'm', metre: 'm', kilometer: 'km', kilometre: 'km', centimeter: 'cm', centimetre: 'cm', millimeter: 'mm', millimetre: 'mm',
+  mile: 'mi', yard: 'yd', foot: 'ft', feet: 'ft', inch: 'in', inches: 'in', 'nautical mile': 'nmi',
+  kilogram: 'kg', gram: 'g', milligram: 'mg', tonne: 't', pound: 'lb', lbs: 'lb', ounce: 'oz', stone: 'st',
+  liter: 'l', litre: 'l', milliliter: 'ml', millilitre: 'ml', gallon: 'gal', quart: 'qt', pint: 'pt', 'fluid ounce': 'floz', 'fl oz': 'floz',
+  'square meter': 'm2', 'square kilometer': 'km2', 'square foot': 'ft2', 'square feet': 'ft2', 'square mile': 'mi2', hectare: 'ha',
+  kph: 'km/h', kmh: 'km/h', mps: 'm/s',
+  second: 's', sec: 's', minute: 'min', hour: 'h', hr: 'h',
+  byte: 'b', kilobyte: 'kb', megabyte: 'mb', gigabyte: 'gb', terabyte: 'tb',
+  celsius: 'c', fahrenheit: 'f', kelvin: 'k',
+};
+
+// Accepts "°F" for "f", names such as "hours" and plurals such as "days", without breaking symbols like "m/s".
+const normalizeUnit = (unit: string) => {
+  const name = unit.trim().toLowerCase().replace(/^°\s*/, '');
+  for (const candidate of [name, name.replace(/s$/, '')]) {
+    if (UNIT_SYMBOLS.includes(candidate)) return candidate;
+    if (Object.hasOwn(UNIT_ALIASES, candidate)) return UNIT_ALIASES[candidate];
+  }
+  return name;
+};
+
+function convertUnits(value: number, from: string, to: string) {
+  const [source, target] = [normalizeUnit(from), normalizeUnit(to)];
+  if (Object.hasOwn(TO_CELSIUS, source) && Object.hasOwn(FROM_CELSIUS, target)) {
+    return { value: FROM_CELSIUS[target](TO_CELSIUS[source](value)), unit: to };
+  }
+  for (const units of Object.values(UNIT_GROUPS)) {
+    if (Object.hasOwn(units, source) && Object.hasOwn(units, target)) {
+      return { value: value * units[source] / units[target], unit: to };
+    }
+  }
+  throw new Error(`Can't convert "${from}" to "${to}".`);
+}
+
+function convertCurrency(amount: number, from: string, to: string) {
+  const [source, target] = [from.trim().toUpperCase(), to.trim().toUpperCase()];
+  if (!Object.hasOwn(USD_RATES, source) || !Object.hasOwn(USD_RATES, target)) {
+    throw new Error(`Supported currencies: ${Object.keys(USD_RATES).join(', ')}.`);
+  }
+  return { amount: amount / USD_RATES[source] * USD_RATES[target], currency: target, ratesAsOf: RATES_AS_OF };
+}
+
+// --- Dates ---
+
+const DAY_MS = 86_400_000;
+
+// Dates are handled as UTC calendar days so daylight saving never shifts a result.
+function parseDate(value: unknown): Date {
+  const text = typeof value === 'string' && value.trim() ? value.trim() : new Date().toISOString().slice(0, 10);
+  const date = new Date(/^\d{4}-\d{2}-\d{2}$/.test(text) ? `${text}T00:00:00Z` : text);
+  if (isNaN(date.getTime())) throw new Error(`"${text}" is not a valid date.`);
+  return date;
+}
+
+const formatDate = (date: Date) => ({
+  date: date.toISOString().slice(0, 10),
+  weekday: date.toLocaleDateString('en-US', { weekday: 'long', timeZone: 'UTC' }),
+});
+
+function dateMath(args: Record<string, unknown>) {
+  const date = parseDate(args.date);
+  const amount = Number(args.amount ?? 0);
+  const unit = String(args.unit ?? 'days');
+  switch (args.operation) {
+    case 'add': {
+      if (unit === 'months' || unit === 'years') {
+        // Jan 31 plus one month is the last day of February, not early March.
+        const month = date.getUTCMonth() + amount * (unit === 'years' ? 12 : 1);
+        const lastDay = new Date(Date.UTC(date.getUTCFullYear(), month + 1, 0)).getUTCDate();
+        return formatDate(new Date(Date.UTC(date.getUTCFullYear(), month, Math.min(date.getUTCDate(), lastDay))));
+      }
+      return formatDate(new Date(date.getTime() + amount * (unit === 'weeks' ? 7 : 1) * DAY_MS));
+    }
+    case 'difference': {
+      const other = parseDate(args.otherDate);
+      const days = Math.round((other.getTime() - date.getTime()) / DAY_MS);
+      const months = (other.getUTCFullYear() - date.getUTCFullYear()) * 12 + other.getUTCMonth() - date.getUTCMonth();
+      return { days, weeks: +(days / 7).toFixed(2), months, years: +(months / 12).toFixed(2) };
+    }
+    case 'info':
+      return { ...formatDate(date), dayOfYear: Math.floor((date.getTime() - Date.UTC(date.getUTCFullYear(), 0, 1)) / DAY_MS) + 1 };
+    default:
+      throw new Error(`Unknown date operation "${String(args.operation)}".`);
+  }
+}
+
+// --- Saved history ---
+
+const HISTORY_RESULT_LIMIT = 5;
+
+async function searchSavedHistory(args: Record<string, unknown>) {
+  const query = String(args.query ?? '');
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const [chats, generations] = await Promise.all([searchConversations(query), getGenerations()]);
+  return {
+    chats: chats.slice(0, HISTORY_RESULT_LIMIT).map(({ conversation, snippet }) => ({
+      title: conversation.title,
+      updated: new Date(conversation.updatedAt).toISOString(),
+      snippet,
+    })),
+    imageGenerations: generations
+      .filter(g => terms.every(term => g.prompt.toLowerCase().includes(term)))
+      .slice(0, HISTORY_RESULT_LIMIT)
+      .map(g => ({ prompt: g.prompt, style: g.style, aspectRatio: g.aspectRatio, created: new Date(g.createdAt).toISOString() })),
+  };
+}
+
+// --- Registry ---
+
+const TOOLS: ChatTool[] = [
+  {
+    declaration: {
+      name: 'calculate',
+      description: 'Evaluates an arithmetic expression exactly. Use it for any calculation instead of doing math in your head.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          expression: { type: Type.STRING, description: 'For example "(12.5 * 4) ^ 2 / sqrt(3)". Supports + - * / % ^, parentheses, sqrt, abs, round, floor, ceil, sin, cos, tan, asin, acos, atan, ln, log (base 10), log2, exp, pi and e.' },
+        },
+        required: ['expression'],
+      },
+    },
+    run: args => evaluateExpression(String(args.expression ?? '')),
+  },
+  {
+    declaration: {
+      name: 'convert_units',
+      description: 'Converts a value between units of length, mass, volume, area, speed, time, data size or temperature.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          value: { type: Type.NUMBER },
+          from: { type: Type.STRING, description: `Unit symbol or name, e.g. one of: ${UNIT_SYMBOLS.join(', ')}.` },
+          to: { type: Type.STRING, description: 'Unit symbol or name of the same kind as `from`.' },
+        },
+        required: ['value', 'from', 'to'],
+      },
+    },
+    run: args => convertUnits(Number(args.value), String(args.from), String(args.to)),
+  },
+  {
+    declaration: {
+      name: 'convert_currency',
+      description: `Converts money between currencies using fixed reference rates from ${RATES_AS_OF}. Mention that the rates are not live.`,
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          amount: { type: Type.NUMBER },
+          from: { type: Type.STRING, description: 'ISO 4217 code, e.g. "USD".' },
+          to: { type: Type.STRING, description: 'ISO 4217 code, e.g. "EUR".' },
+        },
+        required: ['amount', 'from', 'to'],
+      },
+    },
+    run: args => convertCurrency(Number(args.amount), String(args.from), String(args.to)),
+  },
+  {
+    declaration: {
+      name: 'date_math',
+      description: "Date arithmetic: add a duration to a date, count the time between two dates, or get a date's weekday and day of the year.",
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          operation: { type: Type.STRING, enum: ['add', 'difference', 'info'] },
+          date: { type: Type.STRING, description: 'YYYY-MM-DD. Defaults to today.' },
+          amount: { type: Type.NUMBER, description: "For 'add'; negative to go back in time." },
+          unit: { type: Type.STRING, enum: ['days', 'weeks', 'months', 'years'], description: "For 'add'." },
+          otherDate: { type: Type.STRING, description: "For 'difference': YYYY-MM-DD. Defaults to today." },
+        },
+        required: ['operation'],
+      },
+    },
+    run: dateMath,
+  },
+  {
+    declaration: {
+      name: 'search_saved_history',
+      description: "Searches the user's saved chats and image generations in this app. Use it when the user refers to something they did or discussed before.",
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          query: { type: Type.STRING, description: 'Keywords that must all appear.' },
+        },
+        required: ['query'],
+      },
+    },
+    run: searchSavedHistory,
+  },
+];
+
+export const CHAT_TOOL_DECLARATIONS: FunctionDeclaration[] = TOOLS.map(tool => tool.declaration);
+
+/**
+ * Runs the named tool. Failures come back as an `error` field rather than a thrown error,
+ * so the model can see what went wrong and try again.
+ */
+export async function runChatTool(name: string, args: Record<string, unknown>): Promise<{ result: unknown } | { error: string }> {
+  const tool = TOOLS.find(t => t.declaration.name === name);
+  if (!tool) return { error: `Unknown tool "${name}".` };
+  try {
+    return { result: await tool.run(args) };
+  } catch (err) {
+    return { error: err instanceof Error ? err.message : 'An unknown error occurred.' };
+  }
+}
@@ -0,0 +1,111 @@
+// services/conversationService.ts
+import type { Conversation, ConversationSearchResult } from '../types';
+import { openDatabase, requestToPromise, transactionDone, CONVERSATIONS_STORE } from './db';
+
+// The open conversation is remembered so the Chat studio can pick it up again after a tab switch.
+const ACTIVE_CONVERSATION_KEY = 'gemini-ai-studio-active-conversation';
+
+const FALLBACK_TITLE_LENGTH = 40;
+const SNIPPET_RADIUS = 40;
+
+async function getStore(mode: IDBTransactionMode): Promise<{ tx: IDBTransaction; store: IDBObjectStore }> {
+  const db = await openDatabase();
+  const tx = db.transaction(CONVERSATIONS_STORE, mode);
+  return { tx, store: tx.objectStore(CONVERSATIONS_STORE) };
+}
+
+export function createConversationId(): string {
+  return `chat-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/** Title used until a generated one arrives: the start of the first message. */
+export function fallbackTitle(firstMessage: string): string {
+  const text = firstMessage.trim().replace(/\s+/g, ' ');
+  return text.length > FALLBACK_TITLE_LENGTH ? `${text.slice(0, FALLBACK_TITLE_LENGTH).trimEnd()}…` : text || 'New chat';
+}
+
+/** Returns all saved conversations, most recently updated first. */
+export async function listConversations(): Promise<Conversation[]> {
+  const { store } = await getStore('readonly');
+  const conversations = await requestToPromise<Conversation[]>(store.getAll());
+  return conversations.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function getConversation(id: string): Promise<Conversation | undefined> {
+  const { store } = await getStore('readonly');
+  return requestToPromise<Conversation | undefined>(store.get(id));
+}
+
+export async function saveConversation(conversation: Conversation): Promise<void> {
+  const { tx, store } = await getStore('readwrite');
+  store.put(conversation);
+  await transactionDone(tx);
+}
+
+export async function renameConversation(id: string, title: string): Promise<void> {
+  const { tx, store } = await getStore('readwrite');
+  const conversation = await requestToPromise<Conversation | undefined>(store.get(id));
+  if (conversation) {
+    store.put({ ...conversation, title });
+  }
+  await transactionDone(tx);
+}
+
+export async function deleteConversation(id: string): Promise<void> {
+  const { tx, store } = await getStore('readwrite');
+  store.delete(id);
+  await transactionDone(tx);
+  if (getActiveConversationId() === id) {
+    setActiveConversationId(null);
+  }
+}
+
+function snippetAround(text: string, index: number, length: number): string {
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = Math.min(text.length, index + length + SNIPPET_RADIUS);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).replace(/\s+/g, ' ')}${end < text.length ? '…' : ''}`;
+}
+
+/**
+ * Case-insensitive search over titles and every saved message. All words of the query
+ * must appear somewhere in a conversation for it to match.
+ */
+export async function searchConversations(query: string): Promise<ConversationSearchResult[]> {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return [];
+
+  const results: ConversationSearchResult[] = [];
+  for (const conversation of await listConversations()) {
+    const texts = [conversation.title, ...conversation.messages.map(m => m.text)];
+    const haystack = texts.join('\n').toLowerCase();
+    if (!terms.every(term => haystack.includes(term))) continue;
+
+    // Show the first message that contains the first term; fall back to the title.
+    const message = conversation.messages.find(m => m.text.toLowerCase().includes(terms[0]));
+    const snippet = message
+      ? snippetAround(message.text, message.text.toLowerCase().indexOf(terms[0]), terms[0].length)
+      : conversation.title;
+    results.push({ conversation, snippet });
+  }
+  return results;
+}
+
+export function getActiveConversationId(): string | null {
+  try {
+    return localStorage.getItem(ACTIVE_CONVERSATION_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function setActiveConversationId(id: string | null): void {
+  try {
+    if (id) {
+      localStorage.setItem(ACTIVE_CONVERSATION_KEY, id);
+    } else {
+      localStorage.removeItem(ACTIVE_CONVERSATION_KEY);
+    }
+  } catch (error) {
+    console.error("Failed to remember the active conversation", error);
+  }
+}
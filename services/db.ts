@@ -0,0 +1,85 @@
+// services/db.ts
+// Thin promise wrapper around the app's single IndexedDB database.
+
+const DB_NAME = 'gemini-ai-studio';
+const DB_VERSION = 5;
+
+export const HISTORY_STORE = 'history';
+export const GENERATIONS_STORE = 'generations';
+export const CONVERSATIONS_STORE = 'conversations';
+export const VIDEO_JOBS_STORE = 'videoJobs';
+export const VIDEOS_STORE = 'videos';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function upgradeDatabase(db: IDBDatabase): void {
+  if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+    const history = db.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+    history.createIndex('imageKey', 'imageKey', { unique: false });
+    history.createIndex('createdAt', 'createdAt', { unique: false });
+  }
+  if (!db.objectStoreNames.contains(GENERATIONS_STORE)) {
+    db.createObjectStore(GENERATIONS_STORE, { keyPath: 'id' });
+  }
+  if (!db.objectStoreNames.contains(CONVERSATIONS_STORE)) {
+    const conversations = db.createObjectStore(CONVERSATIONS_STORE, { keyPath: 'id' });
+    conversations.createIndex('updatedAt', 'updatedAt', { unique: false });
+  }
+  if (!db.objectStoreNames.contains(VIDEO_JOBS_STORE)) {
+    db.createObjectStore(VIDEO_JOBS_STORE, { keyPath: 'id' });
+  }
+  if (!db.objectStoreNames.contains(VIDEOS_STORE)) {
+    db.createObjectStore(VIDEOS_STORE, { keyPath: 'id' });
+  }
+}
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      let blocked = false;
+      request.onupgradeneeded = () => upgradeDatabase(request.result);
+      request.onsuccess = () => {
+        const db = request.result;
+        // The upgrade finished after this open had already given up; a later call opens its own connection.
+        if (blocked) {
+          db.close();
+          return;
+        }
+        // Another tab is upgrading the schema: step aside, and reopen at the new version on next use.
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => {
+        // Allow a later call to retry instead of caching the failure.
+        dbPromise = null;
+        reject(request.error);
+      };
+      // A tab still running an older version of the app holds the database open at its version.
+      request.onblocked = () => {
+        blocked = true;
+        dbPromise = null;
+        reject(new Error('Saved data could not be opened because the app is open in another tab. Close or reload the other tabs and try again.'));
+      };
+    });
+  }
+  return dbPromise;
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('IndexedDB transaction was aborted.'));
+  });
+}
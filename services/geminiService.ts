@@ -1,8 +1,9 @@
-
-
-import { GoogleGenAI, Modality, GenerateContentResponse } from "@google/genai";
-import type { EditImageResult, ChatResult, Base64File } from '../types';
+import { GoogleGenAI, Modality, GenerateContentResponse, GenerateVideosOperation, VideoGenerationReferenceType, ApiError, FinishReason, GroundingChunk as GenAIGroundingChunk, GroundingSupport, Content, Part, FunctionCall } from "@google/genai";
+import type { EditImageResult, ChatMessage, ChatMode, ChatOptions, ChatResult, ConversationSummary, GroundingChunk, GroundingCitation, PlaceReview, TokenUsage, ToolCall, UserLocation, VideoPollOptions, VideoProgress, VideoRequest, VideoResolution, Base64File, EditImageInput } from '../types';
+import { CHAT_TOOL_DECLARATIONS, runChatTool } from './chatToolService';
 import { fileToBase64, blobToBase64, getVideoFrames } from "../utils/fileUtils";
+import { compositeWithMask } from "../utils/imageUtils";
+import { byteOffsetToIndex, groundingUri } from "../utils/citationUtils";
 
 if (!process.env.API_KEY) {
     // This is a fallback; the VEO model requires its own key selection flow.
@@ -12,21 +13,45 @@ if (!process.env.API_KEY) {
 // A global AI instance for non-VEO models.
 const getAI = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
 
+export const IMAGE_EDIT_MODEL = 'gemini-2.5-flash-image';
+
+const INPUT_ROLE_DESCRIPTIONS = {
+  reference: 'a reference image; use the subjects or objects it shows as the prompt asks',
+  style: 'a style reference; match its look, palette and rendering, not its content',
+};
+
+/**
+ * Edits an image from a prompt. When a black/white `mask` is given, it is sent alongside
+ * the image and the result is composited so only the white regions change.
+ * `inputs` are further images, in order, that the prompt can refer to as "image 2", "image 3", etc.
+ */
 export async function editImage(
   base64ImageData: string,
   mimeType: string,
-  prompt: string
+  prompt: string,
+  mask?: Base64File,
+  inputs: EditImageInput[] = []
 ): Promise<EditImageResult> {
   try {
     const ai = getAI();
+    // Without extra images the request stays a plain image + prompt pair.
+    const labelled = mask || inputs.length > 0;
+    const parts: Part[] = [];
+    if (labelled) parts.push({ text: 'Image 1 is the base image to edit.' });
+    parts.push({ inlineData: { data: base64ImageData, mimeType: mimeType } });
+    if (mask) {
+      parts.push({ text: 'This is a mask for image 1. Only change the regions that are white in the mask; leave everything in the black regions exactly as it is.' });
+      parts.push({ inlineData: { data: mask.base64, mimeType: mask.mimeType } });
+    }
+    inputs.forEach((input, index) => {
+      parts.push({ text: `Image ${index + 2} is ${INPUT_ROLE_DESCRIPTIONS[input.role]}.` });
+      parts.push({ inlineData: { data: input.base64, mimeType: input.mimeType } });
+    });
+    parts.push({ text: labelled ? `Edit image 1: ${prompt}` : prompt });
+
     const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
-      contents: {
-        parts: [
-          { inlineData: { data: base64ImageData, mimeType: mimeType } },
-          { text: prompt },
-        ],
-      },
+      model: IMAGE_EDIT_MODEL,
+      contents: { parts },
       config: {
         responseModalities: [Modality.IMAGE],
       },
@@ -51,6 +76,13 @@ export async function editImage(
     }
 
     if (!imageUrl) throw new Error("API did not return an image.");
+    if (mask) {
+      imageUrl = await compositeWithMask(
+        `data:${mimeType};base64,${base64ImageData}`,
+        imageUrl,
+        `data:${mask.mimeType};base64,${mask.base64}`
+      );
+    }
     return { imageUrl, text: textResponse.trim() };
 
   } catch (error) {
@@ -59,92 +91,560 @@ export async function editImage(
   }
 }
 
-export async function generateImage(prompt: string, aspectRatio: string): Promise<string> {
+export interface ImageGenerationModel {
+    id: string;
+    label: string;
+    supportsSeed: boolean;
+}
+
+// Imagen returns several candidates per call but the Gemini API rejects its seed option;
+// Gemini image models accept a seed but return a single image per call.
+export const IMAGE_GENERATION_MODELS: ImageGenerationModel[] = [
+    { id: 'imagen-4.0-generate-001', label: 'Imagen 4', supportsSeed: false },
+    { id: IMAGE_EDIT_MODEL, label: 'Gemini 2.5 Flash Image', supportsSeed: true },
+];
+
+export const MAX_GENERATED_IMAGES = 4;
+
+export interface GenerateImageOptions {
+    model?: string;
+    numberOfImages?: number;
+    negativePrompt?: string;
+    seed?: number | null;
+}
+
+/**
+ * Generates up to `numberOfImages` candidates and returns them as data URLs.
+ * Safety filtering can drop candidates, so fewer images than requested may come back.
+ */
+export async function generateImage(prompt: string, aspectRatio: string, options: GenerateImageOptions = {}): Promise<string[]> {
+    const { model = IMAGE_GENERATION_MODELS[0].id, numberOfImages = 1, negativePrompt, seed } = options;
+    const count = Math.min(Math.max(numberOfImages, 1), MAX_GENERATED_IMAGES);
+    // The Gemini API has no negative prompt parameter for these models, so it is spelled out in the prompt.
+    const fullPrompt = negativePrompt?.trim() ? `${prompt}\n\nDo not include: ${negativePrompt.trim()}.` : prompt;
     try {
         const ai = getAI();
-        const response = await ai.models.generateImages({
-            model: 'imagen-4.0-generate-001',
-            prompt: prompt,
-            config: {
-                numberOfImages: 1,
-                outputMimeType: 'image/png',
-                aspectRatio: aspectRatio as "1:1" | "3:4" | "4:3" | "9:16" | "16:9",
-            },
-        });
+        let images: string[];
+        if (model.startsWith('imagen')) {
+            const response = await ai.models.generateImages({
+                model,
+                prompt: fullPrompt,
+                config: {
+                    numberOfImages: count,
+                    outputMimeType: 'image/png',
+                    aspectRatio: aspectRatio as "1:1" | "3:4" | "4:3" | "9:16" | "16:9",
+                },
+            });
+            images = (response.generatedImages ?? [])
+                .map(generated => generated.image?.imageBytes)
+                .filter((bytes): bytes is string => Boolean(bytes))
+                .map(bytes => `data:image/png;base64,${bytes}`);
+        } else {
+            // One request per candidate; consecutive seeds keep a seeded batch reproducible.
+            // A failed or blocked candidate doesn't sink the others.
+            const results = await Promise.allSettled(Array.from({ length: count }, (_, index) =>
+                ai.models.generateContent({
+                    model,
+                    contents: { parts: [{ text: fullPrompt }] },
+                    config: {
+                        responseModalities: [Modality.IMAGE],
+                        imageConfig: { aspectRatio },
+                        seed: seed != null ? seed + index : undefined,
+                    },
+                })
+            ));
+            const responses = results
+                .filter((result): result is PromiseFulfilledResult<GenerateContentResponse> => result.status === 'fulfilled')
+                .map(result => result.value);
+            if (responses.length === 0) {
+                throw (results[0] as PromiseRejectedResult).reason;
+            }
+            images = responses
+                .flatMap(response => response.candidates?.[0]?.content?.parts ?? [])
+                .filter(part => part.inlineData?.data)
+                .map(part => `data:${part.inlineData!.mimeType};base64,${part.inlineData!.data}`);
+        }
 
-        const base64ImageBytes = response.generatedImages[0]?.image.imageBytes;
-        if (!base64ImageBytes) {
+        if (images.length === 0) {
             throw new Error("API did not return an image.");
         }
-        return `data:image/png;base64,${base64ImageBytes}`;
+        return images;
     } catch (error) {
         console.error("Error calling Gemini API (generateImage):", error);
         throw error;
     }
 }
 
-export async function generateVideo(prompt: string, aspectRatio: string, image?: Base64File): Promise<string> {
-    // VEO requires its own AI instance to ensure the latest selected API key is used.
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    let operation = await ai.models.generateVideos({
-        model: 'veo-3.1-fast-generate-preview',
+export interface VideoModel {
+    id: string;
+    label: string;
+    aspectRatios: string[];
+    resolutions: VideoResolution[];
+    durations: number[]; // Clip lengths in seconds; 1080p and reference images need the longest
+    maxReferenceImages: number;
+}
+
+export const VIDEO_MODELS: VideoModel[] = [
+    { id: 'veo-3.1-fast-generate-preview', label: 'Veo 3.1 Fast', aspectRatios: ['16:9', '9:16'], resolutions: ['720p', '1080p'], durations: [4, 6, 8], maxReferenceImages: 0 },
+    { id: 'veo-3.1-generate-preview', label: 'Veo 3.1 (quality)', aspectRatios: ['16:9', '9:16'], resolutions: ['720p', '1080p'], durations: [4, 6, 8], maxReferenceImages: 3 },
+];
+
+/** Returns why `request` can't be sent to its model, or null if it can. */
+export function validateVideoRequest(request: VideoRequest): string | null {
+    const model = VIDEO_MODELS.find(m => m.id === request.model);
+    if (!model) return `Unknown video model: ${request.model}.`;
+    if (!request.prompt.trim() && !request.image) return 'Please enter a prompt or upload an image.';
+    if (!model.aspectRatios.includes(request.aspectRatio)) return `${model.label} doesn't support a ${request.aspectRatio} aspect ratio.`;
+    if (!model.resolutions.includes(request.resolution)) return `${model.label} doesn't support ${request.resolution}.`;
+    if (!model.durations.includes(request.durationSeconds)) return `${model.label} makes clips of ${model.durations.join(', ')} seconds.`;
+    const longest = Math.max(...model.durations);
+    if (request.resolution === '1080p' && request.durationSeconds !== longest) return `1080p clips must be ${longest} seconds long.`;
+    if (request.referenceImages.length > 0) {
+        if (model.maxReferenceImages === 0) return `${model.label} doesn't accept reference images.`;
+        if (request.referenceImages.length > model.maxReferenceImages) return `${model.label} accepts up to ${model.maxReferenceImages} reference images.`;
+        if (request.image) return "Reference images can't be combined with a starting image.";
+        if (!request.prompt.trim()) return 'Reference images need a prompt describing the video.';
+        if (request.durationSeconds !== longest) return `Clips with reference images must be ${longest} seconds long.`;
+    }
+    return null;
+}
+
+const VIDEO_POLL_INTERVAL_MS = 5000;
+// While the server can't be reached, polling backs off up to this delay and gives up after this many failures in a row.
+const VIDEO_MAX_BACKOFF_MS = 60_000;
+const VIDEO_MAX_POLL_FAILURES = 6;
+export const VIDEO_TIMEOUT_MS = 15 * 60_000;
+
+// Resolves after `ms`, or rejects with the abort reason as soon as `signal` is aborted.
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Network failures, rate limits and server errors are worth retrying; anything else (e.g. a revoked key) is not.
+export const isTransientError = (error: unknown) =>
+    error instanceof ApiError ? error.status === 429 || error.status >= 500 : error instanceof TypeError;
+
+// VEO requires its own AI instance to ensure the latest selected API key is used.
+const getVideoAI = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+/**
+ * Starts a Veo job and resolves with its operation name, which is all that's needed to poll it later.
+ * Requests the model can't serve are rejected here, before anything is sent.
+ */
+export async function startVideoGeneration(request: VideoRequest): Promise<string> {
+    const problem = validateVideoRequest(request);
+    if (problem) {
+        throw new Error(problem);
+    }
+    const { prompt, model, aspectRatio, resolution, durationSeconds, negativePrompt, image, referenceImages } = request;
+    const ai = getVideoAI();
+    const operation = await ai.models.generateVideos({
+        model,
         prompt: prompt,
         image: image ? { imageBytes: image.base64, mimeType: image.mimeType } : undefined,
         config: {
             numberOfVideos: 1,
-            resolution: '720p',
-            aspectRatio: aspectRatio as '16:9' | '9:16'
+            resolution,
+            aspectRatio,
+            durationSeconds,
+            negativePrompt: negativePrompt.trim() || undefined,
+            referenceImages: referenceImages.length > 0
+                ? referenceImages.map(ref => ({
+                    image: { imageBytes: ref.base64, mimeType: ref.mimeType },
+                    referenceType: VideoGenerationReferenceType.ASSET,
+                }))
+                : undefined,
         }
     });
+    if (!operation.name) {
+        throw new Error("Video generation did not return an operation to follow.");
+    }
+    return operation.name;
+}
+
+/**
+ * Polls a Veo job, started now or in an earlier session, until it finishes.
+ * Resolves with the video's download link. Transient failures are retried with exponential backoff,
+ * and the error thrown once they run out keeps the last one as its `cause`;
+ * aborting `signal` rejects with its reason, and a job still running after `timeoutMs` rejects with a timeout error.
+ */
+export async function waitForVideo(operationName: string, options: VideoPollOptions = {}): Promise<string> {
+    const { signal, onProgress, startedAt = Date.now(), timeoutMs = VIDEO_TIMEOUT_MS } = options;
+    const ai = getVideoAI();
+    let operation = new GenerateVideosOperation();
+    operation.name = operationName;
+    let polls = 0;
+    let failures = 0;
+    const report = (state: VideoProgress['state'], retryInMs?: number) =>
+        onProgress?.({ elapsedMs: Date.now() - startedAt, polls, state, ...(retryInMs !== undefined && { retryInMs }) });
 
-    while (!operation.done) {
-        await new Promise(resolve => setTimeout(resolve, 5000));
-        operation = await ai.operations.getVideosOperation({ operation: operation });
+    while (true) {
+        if (signal?.aborted) throw signal.reason;
+        try {
+            operation = await ai.operations.getVideosOperation({ operation, config: { abortSignal: signal } });
+        } catch (error) {
+            if (signal?.aborted) throw signal.reason;
+            failures++;
+            if (!isTransientError(error)) throw error;
+            if (failures >= VIDEO_MAX_POLL_FAILURES) {
+                const message = error instanceof Error ? error.message : String(error);
+                throw new Error(`Lost contact with the video service after ${failures} attempts: ${message}`, { cause: error });
+            }
+            const delay = Math.min(VIDEO_POLL_INTERVAL_MS * 2 ** (failures - 1), VIDEO_MAX_BACKOFF_MS);
+            report('retrying', delay);
+            await sleep(delay, signal);
+            continue;
+        }
+        polls++;
+        failures = 0;
+        if (operation.done) break;
+        report('running');
+        // Checked after polling, so a job resumed long after it finished still returns its video.
+        if (Date.now() - startedAt > timeoutMs) {
+            throw new Error(`Video generation timed out: it was still running after ${Math.round(timeoutMs / 60_000)} minutes.`);
+        }
+        await sleep(VIDEO_POLL_INTERVAL_MS, signal);
+    }
+    report('done');
+
+    if (operation.error) {
+        throw new Error(String(operation.error.message ?? "Video generation failed."));
     }
-    
     const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
     if (!downloadLink) {
         throw new Error("Video generation failed or did not return a valid link.");
     }
-    
+    return downloadLink;
+}
+
+export async function downloadVideo(downloadLink: string): Promise<Blob> {
     const response = await fetch(`${downloadLink}&key=${process.env.API_KEY}`);
     if (!response.ok) {
         throw new Error(`Failed to download video: ${response.statusText}`);
     }
-    const blob = await response.blob();
-    return URL.createObjectURL(blob);
+    return response.blob();
 }
 
-export async function getChatResponse(prompt: string, mode: 'lite' | 'flash' | 'pro' | 'search' | 'maps'): Promise<ChatResult> {
-    const modelMap = {
-        lite: 'gemini-2.5-flash-lite',
-        flash: 'gemini-2.5-flash',
-        pro: 'gemini-2.5-pro',
-        search: 'gemini-2.5-flash',
-        maps: 'gemini-2.5-flash',
-    };
+const CHAT_MODELS: Record<ChatMode, { model: string; contextWindow: number }> = {
+    lite: { model: 'gemini-2.5-flash-lite', contextWindow: 1_048_576 },
+    flash: { model: 'gemini-2.5-flash', contextWindow: 1_048_576 },
+    pro: { model: 'gemini-2.5-pro', contextWindow: 1_048_576 },
+    search: { model: 'gemini-2.5-flash', contextWindow: 1_048_576 },
+    maps: { model: 'gemini-2.5-flash', contextWindow: 1_048_576 },
+};
+
+export const CHAT_MODES = Object.keys(CHAT_MODELS) as ChatMode[];
+
+// Compaction starts once the estimated prompt passes this share of the context window,
+// leaving room for the reply and for the estimate being off.
+const CONTEXT_BUDGET_RATIO = 0.8;
+// The latest messages are always sent verbatim; only older ones get summarized.
+const RECENT_MESSAGES_KEPT = 6;
+const SUMMARY_MODEL = 'gemini-2.5-flash-lite';
+
+// Rough token count (about four characters per token), good enough to see the limit coming.
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+// Images cost a fixed number of tokens; for other files, assume about four bytes per token.
+const IMAGE_TOKENS = 258;
+const estimateMessageTokens = (message: ChatMessage) =>
+    estimateTokens(message.text)
+    + (message.attachments ?? []).reduce((total, a) => total + (a.mimeType.startsWith('image/') ? IMAGE_TOKENS : Math.ceil(a.size / 4)), 0);
+
+const toContent = (message: ChatMessage): Content => ({
+    role: message.role,
+    parts: [
+        ...(message.attachments ?? []).map(a => ({ inlineData: { data: a.base64, mimeType: a.mimeType } })),
+        ...(message.text ? [{ text: message.text }] : []),
+    ],
+});
+
+// Files can't be summarized from a transcript, so they are referred to by name.
+const describeMessage = (message: ChatMessage) => {
+    const names = (message.attachments ?? []).map(a => a.name);
+    return names.length > 0 ? `${message.text}\n[Attached: ${names.join(', ')}]` : message.text;
+};
+
+const buildSystemInstruction = (systemInstruction: string | undefined, summary: ConversationSummary | null): string | undefined => {
+    const sections = [
+        systemInstruction?.trim(),
+        summary ? `Summary of the earlier part of this conversation:\n${summary.text}` : undefined,
+    ].filter(Boolean);
+    return sections.length > 0 ? sections.join('\n\n') : undefined;
+};
 
+async function summarizeMessages(ai: GoogleGenAI, previousSummary: string | undefined, messages: ChatMessage[]): Promise<string> {
+    const transcript = messages.map(m => `${m.role === 'user' ? 'User' : 'Assistant'}: ${describeMessage(m)}`).join('\n\n');
+    const response = await ai.models.generateContent({
+        model: SUMMARY_MODEL,
+        contents: [
+            previousSummary ? `Summary so far:\n${previousSummary}\n\n` : '',
+            `Conversation to add:\n${transcript}\n\n`,
+            'Write a concise summary of this conversation that keeps every fact, decision, name, number and open question needed to continue it.',
+        ].join(''),
+    });
+    if (!response.text) {
+        throw new Error("Summary came back empty.");
+    }
+    return response.text;
+}
+
+// The contents sent must open with a user turn.
+const startWithUserTurn = (messages: ChatMessage[]) => {
+    const start = messages.findIndex(m => m.role === 'user');
+    return start > 0 ? messages.slice(start) : messages;
+};
+
+/**
+ * Picks what to send for `messages` so the request fits the model's context window.
+ * Older turns are folded into the running summary; if that fails, the oldest turns are dropped.
+ */
+async function fitToContext(
+    ai: GoogleGenAI,
+    messages: ChatMessage[],
+    mode: ChatMode,
+    systemInstruction: string | undefined,
+    summary: ConversationSummary | null
+): Promise<{ messages: ChatMessage[]; summary: ConversationSummary | null }> {
+    const budget = CHAT_MODELS[mode].contextWindow * CONTEXT_BUDGET_RATIO;
+    const estimate = (pending: ChatMessage[], currentSummary: ConversationSummary | null) =>
+        estimateTokens(buildSystemInstruction(systemInstruction, currentSummary) ?? '')
+        + pending.reduce((total, m) => total + estimateMessageTokens(m), 0);
+
+    let pending = messages.slice(summary?.messageCount ?? 0);
+    if (estimate(pending, summary) <= budget) {
+        return { messages: startWithUserTurn(pending), summary };
+    }
+
+    const cutoff = messages.length - RECENT_MESSAGES_KEPT;
+    if (cutoff > (summary?.messageCount ?? 0)) {
+        try {
+            const text = await summarizeMessages(ai, summary?.text, messages.slice(summary?.messageCount ?? 0, cutoff));
+            summary = { text, messageCount: cutoff };
+            pending = messages.slice(cutoff);
+        } catch (error) {
+            console.warn("Failed to summarize older chat turns; dropping them instead.", error);
+        }
+    }
+
+    while (pending.length > 1 && estimate(pending, summary) > budget) {
+        pending = pending.slice(1);
+    }
+    return { messages: startWithUserTurn(pending), summary };
+}
+
+// Sent after a cut-off answer so the model picks up where it stopped.
+const CONTINUE_INSTRUCTION = 'Continue your previous answer exactly where it stopped. Do not repeat anything or add an introduction.';
+
+const toPlaceReviews = (maps: NonNullable<GenAIGroundingChunk['maps']>): PlaceReview[] =>
+    (maps.placeAnswerSources?.reviewSnippets ?? maps.placeAnswerSources?.reviewSnippet ?? []).flatMap(snippet => {
+        const text = snippet.review || snippet.title;
+        return text ? [{
+            text,
+            author: snippet.authorAttribution?.displayName,
+            uri: snippet.googleMapsUri,
+            publishedAgo: snippet.relativePublishTimeDescription,
+        }] : [];
+    });
+
+const toGroundingChunk = (chunk: GenAIGroundingChunk): GroundingChunk => ({
+    web: chunk.web?.uri ? { uri: chunk.web.uri, title: chunk.web.title || chunk.web.uri } : undefined,
+    maps: chunk.maps?.uri ? {
+        uri: chunk.maps.uri,
+        title: chunk.maps.title || chunk.maps.uri,
+        text: chunk.maps.text,
+        reviews: toPlaceReviews(chunk.maps),
+    } : undefined,
+});
+
+// Coordinates go to the Maps tool; the name is also given to the model so "near me" makes sense to it.
+const describeLocation = (location: UserLocation) => {
+    const coordinates = location.latitude !== undefined && location.longitude !== undefined
+        ? ` (latitude ${location.latitude.toFixed(5)}, longitude ${location.longitude.toFixed(5)})`
+        : '';
+    const where = location.source === 'device' ? `their current location${coordinates}` : `${location.label}${coordinates}`;
+    return `The user is at or near ${where}. Use this for questions about nearby places.`;
+};
+
+// Local function tools can't be combined with the built-in Search and Maps tools.
+const TOOL_MODES: ChatMode[] = ['lite', 'flash', 'pro'];
+// After this many rounds of tool calls the model has to answer without tools.
+const MAX_TOOL_ROUNDS = 5;
+
+// Like `response.text`, but without the warning it logs when function calls are present.
+const partsText = (parts: Part[]) => parts.filter(p => p.text && !p.thought).map(p => p.text).join('');
+
+// Where a supported claim ends in `text`. Segment offsets count UTF-8 bytes; the segment's own
+// text is used instead when the offset doesn't line up with it.
+function segmentEnd(text: string, support: GroundingSupport): number | null {
+    const segment = support.segment;
+    if (!segment?.endIndex) return null;
+    const end = byteOffsetToIndex(text, segment.endIndex);
+    if (!segment.text || text.slice(0, end).endsWith(segment.text)) return end;
+    const found = text.indexOf(segment.text);
+    return found >= 0 ? found + segment.text.length : end;
+}
+
+/**
+ * Streams an answer to the last message of `messages`, sending the earlier turns as context.
+ * `onText` receives the full text so far after each chunk. Aborting `signal` stops the stream
+ * and resolves with the partial answer marked as truncated.
+ * In the plain chat modes the model can call the local tools; they run here, their results
+ * are sent back, and each call is reported through `onToolCalls`.
+ * The returned summary should be passed back in on the next call.
+ */
+export async function getChatResponse(messages: ChatMessage[], mode: ChatMode, options: ChatOptions = {}): Promise<ChatResult> {
     const config: any = {};
     if (mode === 'pro') config.thinkingConfig = { thinkingBudget: 32768 };
     if (mode === 'search') config.tools = [{ googleSearch: {} }];
     if (mode === 'maps') config.tools = [{ googleMaps: {} }];
-    
+    const location = mode === 'maps' ? options.location : null;
+    if (location?.latitude !== undefined && location.longitude !== undefined) {
+        config.toolConfig = { retrievalConfig: { latLng: { latitude: location.latitude, longitude: location.longitude } } };
+    }
+    if (TOOL_MODES.includes(mode)) config.tools = [{ functionDeclarations: CHAT_TOOL_DECLARATIONS }];
+    if (options.signal) config.abortSignal = options.signal;
+
+    const ai = getAI();
+    let text = '';
+    let finishReason: FinishReason | undefined;
+    // Grounding usually arrives with the final chunk; collect it from every chunk to be safe.
+    // Sources are deduplicated by URI, so chunk indices from the API are mapped to positions here.
+    const groundingChunks: GroundingChunk[] = [];
+    const addSource = (chunk: GroundingChunk): number | null => {
+        const uri = groundingUri(chunk);
+        if (!uri) return null;
+        const existing = groundingChunks.findIndex(c => groundingUri(c) === uri);
+        return existing >= 0 ? existing : groundingChunks.push(chunk) - 1;
+    };
+    const citations: GroundingCitation[] = [];
+    let searchEntryPoint: string | null = null;
+    // Summed over the tool-calling rounds, each of which is a separate request.
+    let usage: TokenUsage | null = null;
+    const toolCalls: ToolCall[] = [];
+    let context: { messages: ChatMessage[]; summary: ConversationSummary | null } = { messages, summary: options.summary ?? null };
+
     try {
-        const ai = getAI();
-        const response = await ai.models.generateContent({
-            model: modelMap[mode],
-            contents: prompt,
-            config: Object.keys(config).length > 0 ? config : undefined,
-        });
+        context = await fitToContext(ai, messages, mode, options.systemInstruction, options.summary ?? null);
+        const systemInstruction = [buildSystemInstruction(options.systemInstruction, context.summary), location && describeLocation(location)]
+            .filter(Boolean).join('\n\n');
+        if (systemInstruction) config.systemInstruction = systemInstruction;
+        const contents = context.messages.map(toContent);
 
-        return {
-            text: response.text,
-            groundingChunks: response.candidates?.[0]?.groundingMetadata?.groundingChunks || []
-        };
+        for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+            const roundConfig = round === MAX_TOOL_ROUNDS ? { ...config, tools: undefined } : config;
+            const stream = await ai.models.generateContentStream({
+                model: CHAT_MODELS[mode].model,
+                contents,
+                config: Object.keys(roundConfig).length > 0 ? roundConfig : undefined,
+            });
+            // Text written before a tool call is kept, separated from what follows the results.
+            const separator = text ? '\n\n' : '';
+            let roundText = '';
+            const supports: { support: GroundingSupport; sources: (number | null)[] }[] = [];
+            const modelParts: Part[] = [];
+            const functionCalls: FunctionCall[] = [];
+            let roundUsage: GenerateContentResponse['usageMetadata'];
+            for await (const chunk of stream) {
+                roundUsage = chunk.usageMetadata ?? roundUsage;
+                const candidate = chunk.candidates?.[0];
+                const parts = candidate?.content?.parts ?? [];
+                const chunkText = partsText(parts);
+                if (chunkText) {
+                    if (!roundText) text += separator;
+                    roundText += chunkText;
+                    text += chunkText;
+                    options.onText?.(text);
+                }
+                modelParts.push(...parts);
+                functionCalls.push(...parts.flatMap(p => (p.functionCall ? [p.functionCall] : [])));
+                const metadata = candidate?.groundingMetadata;
+                const sources = (metadata?.groundingChunks ?? []).map(c => addSource(toGroundingChunk(c)));
+                metadata?.groundingSupports?.forEach(support => supports.push({ support, sources }));
+                searchEntryPoint = metadata?.searchEntryPoint?.renderedContent ?? searchEntryPoint;
+                finishReason = candidate?.finishReason ?? finishReason;
+            }
+            if (roundUsage) {
+                usage = {
+                    inputTokens: (usage?.inputTokens ?? 0) + (roundUsage.promptTokenCount ?? 0),
+                    outputTokens: (usage?.outputTokens ?? 0) + (roundUsage.candidatesTokenCount ?? 0),
+                    thinkingTokens: (usage?.thinkingTokens ?? 0) + (roundUsage.thoughtsTokenCount ?? 0),
+                };
+            }
+            // Segment offsets are relative to this round's text, which is complete only now.
+            const roundStart = text.length - roundText.length;
+            for (const { support, sources } of supports) {
+                const end = segmentEnd(roundText, support);
+                const cited = (support.groundingChunkIndices ?? []).map(i => sources[i]).filter((i): i is number => i != null);
+                if (end !== null && cited.length > 0) {
+                    citations.push({ index: roundStart + end, sources: Array.from(new Set(cited)) });
+                }
+            }
+            if (functionCalls.length === 0 || options.signal?.aborted) break;
+
+            const responses: Part[] = [];
+            for (const call of functionCalls) {
+                const name = call.name ?? '';
+                const args = call.args ?? {};
+                toolCalls.push({ name, args });
+                options.onToolCalls?.([...toolCalls]);
+                const response = await runChatTool(name, args);
+                toolCalls[toolCalls.length - 1] = { name, args, ...response };
+                options.onToolCalls?.([...toolCalls]);
+                responses.push({ functionResponse: { id: call.id, name, response } });
+            }
+            // The model's parts go back unchanged, since they may carry thought signatures.
+            contents.push({ role: 'model', parts: modelParts }, { role: 'user', parts: responses });
+        }
     } catch (error) {
-        console.error(`Error calling Gemini API (getChatResponse - ${mode}):`, error);
-        throw error;
+        if (!options.signal?.aborted) {
+            console.error(`Error calling Gemini API (getChatResponse - ${mode}):`, error);
+            throw error;
+        }
+    }
+
+    return {
+        text,
+        groundingChunks,
+        citations,
+        searchEntryPoint,
+        summary: context.summary,
+        truncated: Boolean(options.signal?.aborted) || finishReason === FinishReason.MAX_TOKENS,
+        toolCalls,
+        usage,
+    };
+}
+
+/**
+ * Resumes a cut-off answer. `messages` must end with the partial model message;
+ * the result holds only the new text, to be appended to it.
+ */
+export async function continueChatResponse(messages: ChatMessage[], mode: ChatMode, options: ChatOptions = {}): Promise<ChatResult> {
+    return getChatResponse([...messages, { role: 'user', text: CONTINUE_INSTRUCTION }], mode, options);
+}
+
+/** Generates a short title for a conversation from its first exchange. */
+export async function generateChatTitle(userText: string, modelText: string): Promise<string> {
+    const ai = getAI();
+    const response = await ai.models.generateContent({
+        model: SUMMARY_MODEL,
+        contents: `User: ${userText.slice(0, 2000)}\n\nAssistant: ${modelText.slice(0, 2000)}\n\n`
+            + 'Write a title of at most six words for this conversation. Reply with the title only, no quotes or punctuation at the end.',
+    });
+    const title = (response.text ?? '').trim().replace(/^["'\s]+|["'.\s]+$/g, '');
+    if (!title) {
+        throw new Error("Title came back empty.");
     }
+    return title;
 }
 
 export async function analyzeContent(file: File, prompt: string): Promise<string> {
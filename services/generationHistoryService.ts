@@ -0,0 +1,82 @@
+// services/generationHistoryService.ts
+import type { GenerationEntry, GenerationSettings } from '../types';
+import { openDatabase, requestToPromise, transactionDone, GENERATIONS_STORE } from './db';
+import { dataUrlToBlob } from '../utils/fileUtils';
+
+// Oldest generations are dropped beyond this many, so history can't grow without bound.
+const MAX_GENERATIONS = 200;
+
+interface StoredGeneration extends GenerationSettings {
+  id: number;
+  images: Blob[];
+  createdAt: number;
+}
+
+// Object URLs handed out for stored Blobs, revoked when their generation goes away.
+const objectUrls = new Map<number, string[]>();
+
+function toGenerationEntry(record: StoredGeneration): GenerationEntry {
+  let imageUrls = objectUrls.get(record.id);
+  if (!imageUrls) {
+    imageUrls = record.images.map(image => URL.createObjectURL(image));
+    objectUrls.set(record.id, imageUrls);
+  }
+  const { images, ...settings } = record;
+  return { ...settings, imageUrls };
+}
+
+function revokeObjectUrls(id: number): void {
+  objectUrls.get(id)?.forEach(url => URL.revokeObjectURL(url));
+  objectUrls.delete(id);
+}
+
+async function getStore(mode: IDBTransactionMode): Promise<{ tx: IDBTransaction; store: IDBObjectStore }> {
+  const db = await openDatabase();
+  const tx = db.transaction(GENERATIONS_STORE, mode);
+  return { tx, store: tx.objectStore(GENERATIONS_STORE) };
+}
+
+/** Returns all saved generations, newest first. */
+export async function getGenerations(): Promise<GenerationEntry[]> {
+  const { store } = await getStore('readonly');
+  const records = await requestToPromise<StoredGeneration[]>(store.getAll());
+  return records.sort((a, b) => b.id - a.id).map(toGenerationEntry);
+}
+
+/**
+ * Saves a generation and its images. Resolves with the stored entry and the ids of
+ * any old generations dropped to stay under the limit.
+ */
+export async function addGeneration(
+  settings: GenerationSettings,
+  imageUrls: string[]
+): Promise<{ entry: GenerationEntry; evictedIds: number[] }> {
+  const images = await Promise.all(imageUrls.map(dataUrlToBlob));
+  const now = Date.now();
+  const record: StoredGeneration = { ...settings, id: now, images, createdAt: now };
+
+  const { tx, store } = await getStore('readwrite');
+  store.put(record);
+  const keys = await requestToPromise(store.getAllKeys());
+  // Keys are timestamps, so they sort oldest first.
+  const evictedIds = (keys as number[]).sort((a, b) => a - b).slice(0, Math.max(keys.length - MAX_GENERATIONS, 0));
+  evictedIds.forEach(id => store.delete(id));
+  await transactionDone(tx);
+  evictedIds.forEach(revokeObjectUrls);
+
+  return { entry: toGenerationEntry(record), evictedIds };
+}
+
+export async function deleteGeneration(id: number): Promise<void> {
+  const { tx, store } = await getStore('readwrite');
+  store.delete(id);
+  await transactionDone(tx);
+  revokeObjectUrls(id);
+}
+
+export async function clearGenerations(): Promise<void> {
+  const { tx, store } = await getStore('readwrite');
+  store.clear();
+  await transactionDone(tx);
+  Array.from(objectUrls.keys()).forEach(revokeObjectUrls);
+}
@@ -1,67 +1,240 @@
 // services/historyService.ts
-import type { HistoryEntry } from '../types';
+import type { HistoryEntry, HistoryInput, HistoryStorageUsage } from '../types';
+import { openDatabase, requestToPromise, transactionDone, HISTORY_STORE } from './db';
+import { dataUrlToBlob } from '../utils/fileUtils';
 
-const HISTORY_STORAGE_KEY = 'nano-banana-history';
+// Pre-IndexedDB history lived in a single localStorage blob keyed by file name.
+const LEGACY_STORAGE_KEY = 'nano-banana-history';
+const LEGACY_KEY_PREFIX = 'legacy-name:';
 
-// The stored data will be an object where keys are image names
-// and values are arrays of history entries.
-type HistoryStore = {
-  [imageName: string]: HistoryEntry[];
-};
+// Eviction policy: once history images exceed this budget, or the origin uses more
+// than this share of its quota, the oldest entries of other images are dropped first.
+const HISTORY_BYTE_BUDGET = 250 * 1024 * 1024;
+const MAX_QUOTA_RATIO = 0.8;
 
-function readHistoryStore(): HistoryStore {
-  try {
-    const storedHistory = localStorage.getItem(HISTORY_STORAGE_KEY);
-    return storedHistory ? JSON.parse(storedHistory) : {};
-  } catch (error) {
-    console.error("Failed to read history from localStorage", error);
-    return {};
+// What is actually persisted. The image is kept as a Blob instead of a base64 string.
+interface StoredHistoryEntry {
+  id: number;
+  imageKey: string;
+  prompt: string;
+  text: string;
+  style?: string | null;
+  parentId?: number | null;
+  inputs?: HistoryInput[];
+  image: Blob;
+  byteSize: number;
+  createdAt: number;
+}
+
+// Object URLs handed out for stored Blobs, revoked when their entry goes away.
+const objectUrls = new Map<number, string>();
+
+let migrationPromise: Promise<void> | null = null;
+
+function toHistoryEntry(record: StoredHistoryEntry): HistoryEntry {
+  let imageUrl = objectUrls.get(record.id);
+  if (!imageUrl) {
+    imageUrl = URL.createObjectURL(record.image);
+    objectUrls.set(record.id, imageUrl);
   }
+  return {
+    id: record.id,
+    prompt: record.prompt,
+    text: record.text,
+    style: record.style,
+    parentId: record.parentId ?? null,
+    inputs: record.inputs ?? [],
+    imageUrl,
+  };
 }
 
-function writeHistoryStore(store: HistoryStore): void {
+function revokeObjectUrl(id: number): void {
+  const url = objectUrls.get(id);
+  if (url) {
+    URL.revokeObjectURL(url);
+    objectUrls.delete(id);
+  }
+}
+
+async function migrateLegacyHistory(): Promise<void> {
+  let legacy: Record<string, HistoryEntry[]>;
   try {
-    localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(store));
+    const stored = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (!stored) return;
+    legacy = JSON.parse(stored);
   } catch (error) {
-    console.error("Failed to write history to localStorage", error);
+    console.error("Failed to read legacy history from localStorage", error);
+    return;
+  }
+
+  const records: StoredHistoryEntry[] = [];
+  for (const [imageName, entries] of Object.entries(legacy)) {
+    for (const entry of entries) {
+      try {
+        const image = await dataUrlToBlob(entry.imageUrl);
+        records.push({
+          id: entry.id,
+          // File names are all we have for old entries; they are re-keyed by hash on first open.
+          imageKey: `${LEGACY_KEY_PREFIX}${imageName}`,
+          prompt: entry.prompt,
+          text: entry.text,
+          style: entry.style,
+          image,
+          byteSize: image.size,
+          createdAt: entry.id,
+        });
+      } catch (error) {
+        console.error(`Skipping unreadable legacy history entry ${entry.id}`, error);
+      }
+    }
+  }
+
+  const db = await openDatabase();
+  const tx = db.transaction(HISTORY_STORE, 'readwrite');
+  const store = tx.objectStore(HISTORY_STORE);
+  records.forEach(record => store.put(record));
+  await transactionDone(tx);
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+}
+
+async function getStore(mode: IDBTransactionMode): Promise<{ tx: IDBTransaction; store: IDBObjectStore }> {
+  if (!migrationPromise) {
+    migrationPromise = migrateLegacyHistory().catch(error => {
+      console.error("Failed to migrate history from localStorage", error);
+    });
   }
+  await migrationPromise;
+  const db = await openDatabase();
+  const tx = db.transaction(HISTORY_STORE, mode);
+  return { tx, store: tx.objectStore(HISTORY_STORE) };
 }
 
-export function getHistoryForImage(imageName: string): HistoryEntry[] {
-  const store = readHistoryStore();
-  // Return entries sorted by id descending (newest first)
-  return (store[imageName] || []).sort((a, b) => b.id - a.id);
+async function getRecordsForImage(imageKey: string): Promise<StoredHistoryEntry[]> {
+  const { store } = await getStore('readonly');
+  return requestToPromise<StoredHistoryEntry[]>(store.index('imageKey').getAll(imageKey));
 }
 
-export function addHistoryEntry(imageName: string, entry: HistoryEntry): void {
-  const store = readHistoryStore();
-  const imageHistory = store[imageName] || [];
-  // Prepend new entry to ensure it's at the top
-  const updatedHistory = [entry, ...imageHistory];
-  store[imageName] = updatedHistory;
-  writeHistoryStore(store);
+// Moves entries migrated from localStorage under the content hash of the image they belong to.
+async function claimLegacyHistory(imageKey: string, imageName: string): Promise<void> {
+  const legacyRecords = await getRecordsForImage(`${LEGACY_KEY_PREFIX}${imageName}`);
+  if (legacyRecords.length === 0) return;
+
+  const { tx, store } = await getStore('readwrite');
+  legacyRecords.forEach(record => store.put({ ...record, imageKey }));
+  await transactionDone(tx);
 }
 
-export function deleteHistoryEntry(imageName: string, entryId: number): void {
-  const store = readHistoryStore();
-  if (!store[imageName]) return;
+/**
+ * Returns the history for an image, newest first.
+ * `imageName` lets entries migrated from the old name-keyed storage be adopted by this image.
+ */
+export async function getHistoryForImage(imageKey: string, imageName?: string): Promise<HistoryEntry[]> {
+  if (imageName) {
+    await claimLegacyHistory(imageKey, imageName);
+  }
+  const records = await getRecordsForImage(imageKey);
+  return records.sort((a, b) => b.id - a.id).map(toHistoryEntry);
+}
 
-  const updatedHistory = store[imageName].filter(e => e.id !== entryId);
+/**
+ * Persists an entry and applies the eviction policy.
+ * Resolves with the ids of any entries of this image that had to be evicted to make room.
+ * `keepIds` are entries still on screen, which must not be evicted.
+ */
+export async function addHistoryEntry(imageKey: string, entry: HistoryEntry, keepIds: number[] = []): Promise<number[]> {
+  const image = await dataUrlToBlob(entry.imageUrl);
+  const record: StoredHistoryEntry = {
+    id: entry.id,
+    imageKey,
+    prompt: entry.prompt,
+    text: entry.text,
+    style: entry.style,
+    parentId: entry.parentId ?? null,
+    inputs: entry.inputs ?? [],
+    image,
+    byteSize: image.size,
+    createdAt: Date.now(),
+  };
 
-  if (updatedHistory.length > 0) {
-    store[imageName] = updatedHistory;
-  } else {
-    // If no entries are left, remove the key for this image
-    delete store[imageName];
+  try {
+    const { tx, store } = await getStore('readwrite');
+    store.put(record);
+    await transactionDone(tx);
+  } catch (error) {
+    if (!(error instanceof DOMException && error.name === 'QuotaExceededError')) throw error;
+    // Out of space: free room for this entry and try once more.
+    const evicted = await evictHistory(imageKey, record.byteSize, [record.id, ...keepIds]);
+    const { tx, store } = await getStore('readwrite');
+    store.put(record);
+    await transactionDone(tx);
+    return evicted;
   }
-  
-  writeHistoryStore(store);
+
+  return evictHistory(imageKey, 0, [record.id, ...keepIds]);
 }
 
-export function clearHistoryForImage(imageName: string): void {
-  const store = readHistoryStore();
-  if (store[imageName]) {
-    delete store[imageName];
-    writeHistoryStore(store);
+/**
+ * Deletes one entry. Its children are re-attached to its parent so the edit tree stays connected.
+ */
+export async function deleteHistoryEntry(imageKey: string, entryId: number): Promise<void> {
+  const { tx, store } = await getStore('readwrite');
+  const siblings = await requestToPromise<StoredHistoryEntry[]>(store.index('imageKey').getAll(imageKey));
+  const record = siblings.find(r => r.id === entryId);
+  if (record) {
+    siblings
+      .filter(r => r.parentId === entryId)
+      .forEach(child => store.put({ ...child, parentId: record.parentId ?? null }));
+    store.delete(entryId);
+  }
+  await transactionDone(tx);
+  revokeObjectUrl(entryId);
+}
+
+export async function clearHistoryForImage(imageKey: string): Promise<void> {
+  const { tx, store } = await getStore('readwrite');
+  const ids = await requestToPromise(store.index('imageKey').getAllKeys(imageKey));
+  ids.forEach(id => store.delete(id));
+  await transactionDone(tx);
+  ids.forEach(id => revokeObjectUrl(id as number));
+}
+
+export async function getHistoryStorageUsage(): Promise<HistoryStorageUsage> {
+  const { store } = await getStore('readonly');
+  const records = await requestToPromise<StoredHistoryEntry[]>(store.getAll());
+  const historyBytes = records.reduce((total, record) => total + record.byteSize, 0);
+  const estimate: StorageEstimate = navigator.storage?.estimate ? await navigator.storage.estimate() : {};
+  return { historyBytes, usage: estimate.usage ?? 0, quota: estimate.quota ?? 0 };
+}
+
+/**
+ * Deletes the oldest entries until history fits the byte budget and the origin is below
+ * the quota ratio, with `extraBytes` of headroom. Entries of `activeImageKey` go last
+ * and `keepIds` (the entry being added, and any shown on screen) are never evicted.
+ */
+async function evictHistory(activeImageKey: string, extraBytes: number, keepIds: number[]): Promise<number[]> {
+  const { historyBytes, usage, quota } = await getHistoryStorageUsage();
+  const overBudget = Math.max(0, historyBytes + extraBytes - HISTORY_BYTE_BUDGET);
+  const overQuota = quota > 0 ? Math.max(0, usage + extraBytes - quota * MAX_QUOTA_RATIO) : 0;
+  let bytesToFree = Math.max(overBudget, overQuota, extraBytes);
+  if (bytesToFree === 0) return [];
+
+  const { tx, store } = await getStore('readwrite');
+  const records = await requestToPromise<StoredHistoryEntry[]>(store.index('createdAt').getAll());
+  const candidates = [
+    ...records.filter(r => r.imageKey !== activeImageKey),
+    ...records.filter(r => r.imageKey === activeImageKey && !keepIds.includes(r.id)),
+  ];
+
+  const evictedFromActive: number[] = [];
+  const evictedIds: number[] = [];
+  for (const record of candidates) {
+    if (bytesToFree <= 0) break;
+    store.delete(record.id);
+    evictedIds.push(record.id);
+    if (record.imageKey === activeImageKey) evictedFromActive.push(record.id);
+    bytesToFree -= record.byteSize;
   }
+  await transactionDone(tx);
+  evictedIds.forEach(revokeObjectUrl);
+  return evictedFromActive;
 }
@@ -0,0 +1,132 @@
+// services/presetService.ts
+import { STYLE_PRESETS } from '../constants/styles';
+import type { CustomStylePreset, StylePreset } from '../constants/styles';
+
+const PRESET_STORAGE_KEY = 'gemini-ai-studio-style-presets';
+const EXPORT_FORMAT_VERSION = 1;
+
+// Shape of an exported preset file.
+interface PresetExportFile {
+  version: number;
+  presets: StylePreset[];
+}
+
+type PresetListener = (presets: CustomStylePreset[]) => void;
+const listeners = new Set<PresetListener>();
+
+export function getCustomPresets(): CustomStylePreset[] {
+  try {
+    const stored = localStorage.getItem(PRESET_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error("Failed to read style presets from localStorage", error);
+    return [];
+  }
+}
+
+/**
+ * Replaces the stored custom presets; their order is the display order.
+ * Throws when the browser refuses the write (e.g. storage is full).
+ */
+export function saveCustomPresets(presets: CustomStylePreset[]): void {
+  localStorage.setItem(PRESET_STORAGE_KEY, JSON.stringify(presets));
+  listeners.forEach(listener => listener(presets));
+}
+
+export function subscribeToPresets(listener: PresetListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Built-in presets first, then the user's own.
+export function getAllPresets(): StylePreset[] {
+  return [...STYLE_PRESETS, ...getCustomPresets()];
+}
+
+export function findPreset(name: string | null): StylePreset | undefined {
+  return name ? getAllPresets().find(p => p.name === name) : undefined;
+}
+
+export function createPresetId(): string {
+  return `preset-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Returns a problem with a preset's name, or null when it is usable.
+ * Names identify presets in history, so they must be unique across built-in and custom ones.
+ */
+export function validatePresetName(name: string, existing: CustomStylePreset[], ownId?: string): string | null {
+  const trimmed = name.trim();
+  if (!trimmed) return 'Please give the preset a name.';
+  if (STYLE_PRESETS.some(p => p.name.toLowerCase() === trimmed.toLowerCase())) {
+    return `"${trimmed}" is a built-in style.`;
+  }
+  if (existing.some(p => p.id !== ownId && p.name.toLowerCase() === trimmed.toLowerCase())) {
+    return `A preset named "${trimmed}" already exists.`;
+  }
+  return null;
+}
+
+export function exportPresets(presets: CustomStylePreset[]): string {
+  const file: PresetExportFile = {
+    version: EXPORT_FORMAT_VERSION,
+    presets: presets.map(({ name, promptSuffix, thumbnailUrl }) => ({ name, promptSuffix, thumbnailUrl })),
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Merges presets from an exported file into `existing`. An imported preset replaces a
+ * custom preset of the same name. Unnamed presets, repeats of a name earlier in the file
+ * and ones clashing with a built-in style are skipped; `skipped` says why for each.
+ */
+export function importPresets(json: string, existing: CustomStylePreset[]): { presets: CustomStylePreset[]; skipped: string[] } {
+  let file: PresetExportFile;
+  try {
+    file = JSON.parse(json);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+  if (!file || !Array.isArray(file.presets)) {
+    throw new Error("The file does not contain style presets.");
+  }
+  if (typeof file.version === 'number' && file.version > EXPORT_FORMAT_VERSION) {
+    throw new Error("The presets were exported by a newer version of the app.");
+  }
+
+  const merged = [...existing];
+  const fromFile: CustomStylePreset[] = [];
+  const skipped: string[] = [];
+  for (const preset of file.presets) {
+    if (typeof preset?.name !== 'string' || typeof preset.promptSuffix !== 'string') {
+      throw new Error("The file contains a malformed preset.");
+    }
+    const name = preset.name.trim();
+    const problem = !name
+      ? 'A preset has no name.'
+      : fromFile.some(p => p.name.toLowerCase() === name.toLowerCase())
+        ? `"${name}" appears more than once in the file.`
+        : validatePresetName(name, []);
+    if (problem) {
+      skipped.push(problem);
+      continue;
+    }
+    const imported: CustomStylePreset = {
+      id: createPresetId(),
+      name,
+      promptSuffix: preset.promptSuffix,
+      // Only embedded images are accepted, so a shared file cannot point at arbitrary hosts.
+      thumbnailUrl: typeof preset.thumbnailUrl === 'string' && preset.thumbnailUrl.startsWith('data:image/') ? preset.thumbnailUrl : '',
+    };
+    fromFile.push(imported);
+    const index = merged.findIndex(p => p.name.toLowerCase() === name.toLowerCase());
+    if (index >= 0) {
+      merged[index] = { ...imported, id: merged[index].id };
+    } else {
+      merged.push(imported);
+    }
+  }
+  return { presets: merged, skipped };
+}
@@ -0,0 +1,95 @@
+// services/videoGalleryService.ts
+import type { Base64File, GalleryVideo, VideoJob } from '../types';
+import { openDatabase, requestToPromise, transactionDone, VIDEOS_STORE } from './db';
+import { dataUrlToBlob, getVideoPoster } from '../utils/fileUtils';
+
+interface StoredVideo {
+  id: string;
+  prompt: string;
+  aspectRatio: string;
+  model: string;
+  image: Base64File | null;
+  video: Blob;
+  poster: Blob | null;
+  createdAt: number;
+}
+
+// Object URLs handed out for stored Blobs, revoked when their video goes away.
+const objectUrls = new Map<string, { videoUrl: string; posterUrl: string | null }>();
+
+function toGalleryVideo(record: StoredVideo): GalleryVideo {
+  let urls = objectUrls.get(record.id);
+  if (!urls) {
+    urls = {
+      videoUrl: URL.createObjectURL(record.video),
+      posterUrl: record.poster ? URL.createObjectURL(record.poster) : null,
+    };
+    objectUrls.set(record.id, urls);
+  }
+  const { video, poster, ...details } = record;
+  return { ...details, ...urls };
+}
+
+function revokeObjectUrls(id: string): void {
+  const urls = objectUrls.get(id);
+  if (urls) {
+    URL.revokeObjectURL(urls.videoUrl);
+    if (urls.posterUrl) URL.revokeObjectURL(urls.posterUrl);
+  }
+  objectUrls.delete(id);
+}
+
+async function getStore(mode: IDBTransactionMode): Promise<{ tx: IDBTransaction; store: IDBObjectStore }> {
+  const db = await openDatabase();
+  const tx = db.transaction(VIDEOS_STORE, mode);
+  return { tx, store: tx.objectStore(VIDEOS_STORE) };
+}
+
+// A video that can't be decoded here is still worth keeping, just without a poster.
+async function createPoster(video: Blob): Promise<Blob | null> {
+  const src = URL.createObjectURL(video);
+  try {
+    const frame = await getVideoPoster(src);
+    return await dataUrlToBlob(`data:${frame.mimeType};base64,${frame.base64}`);
+  } catch (error) {
+    console.error("Failed to create a video poster", error);
+    return null;
+  } finally {
+    URL.revokeObjectURL(src);
+  }
+}
+
+/** Returns all saved videos, newest first. */
+export async function getGalleryVideos(): Promise<GalleryVideo[]> {
+  const { store } = await getStore('readonly');
+  const records = await requestToPromise<StoredVideo[]>(store.getAll());
+  return records.sort((a, b) => b.createdAt - a.createdAt).map(toGalleryVideo);
+}
+
+/** Saves a finished job's video, with a poster taken from it. */
+export async function addGalleryVideo(job: VideoJob, video: Blob): Promise<GalleryVideo> {
+  const poster = await createPoster(video);
+  const record: StoredVideo = {
+    id: job.id,
+    prompt: job.prompt,
+    aspectRatio: job.aspectRatio,
+    model: job.model,
+    image: job.image,
+    video,
+    poster,
+    createdAt: job.createdAt,
+  };
+
+  const { tx, store } = await getStore('readwrite');
+  store.put(record);
+  await transactionDone(tx);
+  revokeObjectUrls(record.id);
+  return toGalleryVideo(record);
+}
+
+export async function deleteGalleryVideo(id: string): Promise<void> {
+  const { tx, store } = await getStore('readwrite');
+  store.delete(id);
+  await transactionDone(tx);
+  revokeObjectUrls(id);
+}
@@ -0,0 +1,136 @@
+// services/videoJobService.ts
+import type { VideoJob, VideoProgress } from '../types';
+import { openDatabase, requestToPromise, transactionDone, VIDEO_JOBS_STORE } from './db';
+import { waitForVideo, downloadVideo, isTransientError } from './geminiService';
+import { addGalleryVideo } from './videoGalleryService';
+
+// Jobs saved before these options could be chosen were all made with the settings of the time.
+const LEGACY_JOB_DEFAULTS: Pick<VideoJob, 'resolution' | 'durationSeconds' | 'negativePrompt' | 'referenceImages'> = {
+  resolution: '720p',
+  durationSeconds: 8,
+  negativePrompt: '',
+  referenceImages: [],
+};
+
+const STORYBOARD_KEY = 'gemini-ai-studio-video-storyboard';
+
+interface ActivePoll {
+  promise: Promise<VideoJob>;
+  controller: AbortController;
+  progress: VideoProgress | null;
+  onProgress?: (progress: VideoProgress) => void;
+}
+
+// Jobs being polled in this page, so reopening the Video studio doesn't poll the same job twice.
+const activePolls = new Map<string, ActivePoll>();
+
+async function getStore(mode: IDBTransactionMode): Promise<{ tx: IDBTransaction; store: IDBObjectStore }> {
+  const db = await openDatabase();
+  const tx = db.transaction(VIDEO_JOBS_STORE, mode);
+  return { tx, store: tx.objectStore(VIDEO_JOBS_STORE) };
+}
+
+/** Returns all saved video jobs, newest first. */
+export async function listVideoJobs(): Promise<VideoJob[]> {
+  const { store } = await getStore('readonly');
+  const jobs = await requestToPromise<VideoJob[]>(store.getAll());
+  return jobs.map(job => ({ ...LEGACY_JOB_DEFAULTS, ...job })).sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function saveVideoJob(job: VideoJob): Promise<void> {
+  const { tx, store } = await getStore('readwrite');
+  store.put(job);
+  await transactionDone(tx);
+}
+
+export async function deleteVideoJob(id: string): Promise<void> {
+  const { tx, store } = await getStore('readwrite');
+  store.delete(id);
+  await transactionDone(tx);
+}
+
+/**
+ * Polls a pending job until it finishes, saves the outcome (and the video itself, to the gallery)
+ * and resolves with the updated job. If the server stays unreachable the job resolves still pending,
+ * with `error` set, and can be tracked again later.
+ * A job already being polled returns the existing poll, and `onProgress` replaces its listener
+ * (receiving the latest progress straight away). Finished jobs resolve as they are.
+ */
+export function trackVideoJob(job: VideoJob, onProgress?: (progress: VideoProgress) => void): Promise<VideoJob> {
+  if (job.status !== 'pending') return Promise.resolve(job);
+  const existing = activePolls.get(job.id);
+  if (existing) {
+    existing.onProgress = onProgress;
+    if (existing.progress) onProgress?.(existing.progress);
+    return existing.promise;
+  }
+
+  const poll: ActivePoll = { promise: Promise.resolve(job), controller: new AbortController(), progress: null, onProgress };
+  poll.promise = (async () => {
+    let finished: VideoJob;
+    try {
+      const videoUri = await waitForVideo(job.id, {
+        signal: poll.controller.signal,
+        startedAt: job.createdAt,
+        onProgress: progress => {
+          poll.progress = progress;
+          poll.onProgress?.(progress);
+        },
+      });
+      finished = { ...job, status: 'succeeded', videoUri, error: null, finishedAt: Date.now() };
+    } catch (err) {
+      if (poll.controller.signal.aborted) {
+        finished = { ...job, status: 'cancelled', error: null, finishedAt: Date.now() };
+      } else if (err instanceof Error && isTransientError(err.cause)) {
+        // Only this page lost contact; the operation is still running on the server. The job stays
+        // pending so it is picked up again after a reload, and the error says why it isn't being polled.
+        finished = { ...job, error: err.message };
+      } else {
+        const error = err instanceof Error ? err.message : 'An unknown error occurred.';
+        finished = { ...job, status: 'failed', error, finishedAt: Date.now() };
+      }
+    }
+    // A job removed while it was running stays removed.
+    const { store } = await getStore('readonly');
+    if (await requestToPromise(store.getKey(job.id))) {
+      await saveVideoJob(finished);
+      if (finished.videoUri) {
+        try {
+          await addGalleryVideo(finished, await downloadVideo(finished.videoUri));
+        } catch (error) {
+          console.error("Failed to save the video to the gallery", error);
+        }
+      }
+    }
+    return finished;
+  })().finally(() => activePolls.delete(job.id));
+  activePolls.set(job.id, poll);
+  return poll.promise;
+}
+
+/**
+ * Stops polling a job; its `trackVideoJob` promise resolves with the job marked cancelled.
+ * Veo has no way to cancel the generation itself, so the server still finishes (and bills) it.
+ */
+export function cancelVideoJob(id: string): void {
+  activePolls.get(id)?.controller.abort();
+}
+
+/** Returns the ids of the storyboard's shots, in playback order. */
+export function getStoryboard(): string[] {
+  try {
+    const stored = localStorage.getItem(STORYBOARD_KEY);
+    const ids: unknown = stored ? JSON.parse(stored) : [];
+    return Array.isArray(ids) ? ids.filter((id): id is string => typeof id === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveStoryboard(ids: string[]): void {
+  try {
+    localStorage.setItem(STORYBOARD_KEY, JSON.stringify(ids));
+  } catch (error) {
+    console.error("Failed to save the storyboard", error);
+  }
+}
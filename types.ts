@@ -10,6 +10,60 @@ export interface HistoryEntry {
   imageUrl: string;
   text: string;
   style?: string | null;
+  parentId?: number | null; // Entry this edit was made from; null when made from the original upload
+  inputs?: HistoryInput[];  // Extra images sent along with the base image, in order
+}
+
+// How an additional input image should be used by an edit. The edited image itself is the base.
+export type ReferenceRole = 'reference' | 'style';
+
+export interface ReferenceImage {
+  id: string;
+  file: File;
+  role: ReferenceRole;
+  previewUrl: string;
+}
+
+export interface EditImageInput extends Base64File {
+  role: ReferenceRole;
+}
+
+// Record of one extra input in history; only a thumbnail is kept, not the full image.
+export interface HistoryInput {
+  role: ReferenceRole;
+  name: string;
+  thumbnailUrl: string;
+}
+
+export interface HistoryStorageUsage {
+  historyBytes: number; // Bytes held by stored history images
+  usage: number;        // Origin-wide usage reported by the browser
+  quota: number;        // Origin-wide quota reported by the browser
+}
+
+// Pixels added on each side when expanding an image's canvas.
+export interface CanvasPadding {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+// Everything needed to repeat an image generation.
+export interface GenerationSettings {
+  prompt: string;
+  negativePrompt: string;
+  style: string | null;
+  aspectRatio: string;
+  model: string;
+  numberOfImages: number;
+  seed: number | null;
+}
+
+export interface GenerationEntry extends GenerationSettings {
+  id: number;
+  imageUrls: string[];
+  createdAt: number;
 }
 
 export interface Base64File {
@@ -25,16 +79,167 @@ export interface GroundingChunk {
   maps?: {
     uri: string;
     title: string;
+    text?: string; // What the model drew from this place
+    reviews?: PlaceReview[];
   };
 }
 
+export interface PlaceReview {
+  text: string;
+  author?: string;
+  uri?: string; // The review on Google Maps
+  publishedAgo?: string; // e.g. "2 months ago"
+}
+
+// Where the user is, for Maps answers. Coordinates are missing when only a place name was typed in.
+export interface UserLocation {
+  source: 'device' | 'manual';
+  label: string;
+  latitude?: number;
+  longitude?: number;
+}
+
+// Marks the claim ending at `index` in a message's text as backed by some of its grounding chunks.
+export interface GroundingCitation {
+  index: number;
+  sources: number[]; // Positions in the message's groundingChunks
+}
+
+export type ChatMode = 'lite' | 'flash' | 'pro' | 'search' | 'maps';
+
+// A file sent inline with a chat turn.
+export interface ChatAttachment extends Base64File {
+  name: string;
+  size: number; // Bytes of the original file
+}
+
+// A local function the model called while answering, and what it returned.
+export interface ToolCall {
+  name: string;
+  args: Record<string, unknown>;
+  result?: unknown; // Set once the call has run
+  error?: string;
+}
+
 export interface ChatMessage {
   role: 'user' | 'model';
   text: string;
+  attachments?: ChatAttachment[];
+  toolCalls?: ToolCall[];
   groundingChunks?: GroundingChunk[];
+  citations?: GroundingCitation[];
+  searchEntryPoint?: string; // Google Search suggestions HTML that must be shown with grounded answers
+  truncated?: boolean; // The answer was stopped or hit the output limit and can be continued
+}
+
+// Stand-in for the first `messageCount` messages of a conversation once they no longer fit the context.
+export interface ConversationSummary {
+  text: string;
+  messageCount: number;
+}
+
+export interface ChatOptions {
+  systemInstruction?: string;
+  summary?: ConversationSummary | null;
+  signal?: AbortSignal;
+  onText?: (text: string) => void; // Receives the full text so far while streaming
+  onToolCalls?: (toolCalls: ToolCall[]) => void; // Receives every tool call so far as they start and finish
+  location?: UserLocation | null; // Used in maps mode
+}
+
+export interface Conversation {
+  id: string;
+  title: string;
+  mode: ChatMode;
+  systemInstruction: string;
+  summary: ConversationSummary | null;
+  messages: ChatMessage[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ConversationSearchResult {
+  conversation: Conversation;
+  snippet: string; // Text around the first match
 }
 
 export interface ChatResult {
   text: string;
-  groundingChunks: GroundingChunk[];
+  groundingChunks: GroundingChunk[]; // Deduplicated by URI
+  citations: GroundingCitation[];
+  searchEntryPoint: string | null;
+  summary: ConversationSummary | null; // Updated when older turns had to be compacted
+  truncated: boolean;
+  toolCalls: ToolCall[];
+  usage: TokenUsage | null; // Missing when the request was stopped before the model reported it
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  thinkingTokens: number;
+}
+
+// One column of a side-by-side comparison while it streams and after it finishes.
+export interface ComparisonAnswer {
+  mode: ChatMode;
+  text: string;
+  result: ChatResult | null; // Set once the answer is complete
+  error: string | null;
+  firstTokenMs: number | null;
+  totalMs: number | null;
+}
+
+export type VideoJobStatus = 'pending' | 'succeeded' | 'failed' | 'cancelled';
+
+export type VideoResolution = '720p' | '1080p';
+
+// Everything a Veo job is asked to make.
+export interface VideoRequest {
+  prompt: string;
+  model: string;
+  aspectRatio: string;
+  resolution: VideoResolution;
+  durationSeconds: number;
+  negativePrompt: string;
+  image: Base64File | null; // Starting frame, if one was given
+  referenceImages: Base64File[]; // Subjects to keep consistent; can't be combined with a starting frame
+}
+
+// A Veo request, saved as soon as it starts so polling can resume after a reload.
+export interface VideoJob extends VideoRequest {
+  id: string; // The long-running operation's name
+  extendedFrom?: string; // The job whose last frame this shot continues from
+  status: VideoJobStatus;
+  videoUri: string | null; // Download link once succeeded; it expires after a couple of days
+  error: string | null;
+  createdAt: number;
+  finishedAt: number | null;
+}
+
+// A finished video kept in the browser, since its download link expires.
+export interface GalleryVideo {
+  id: string; // The job that made it
+  prompt: string;
+  aspectRatio: string;
+  model: string;
+  image: Base64File | null; // Starting frame, if one was given
+  videoUrl: string;
+  posterUrl: string | null;
+  createdAt: number;
+}
+
+// Reported after every poll of a Veo job.
+export interface VideoProgress {
+  elapsedMs: number; // Since the job started, including time before a reload
+  polls: number; // Successful status checks so far
+  state: 'running' | 'retrying' | 'done'; // 'retrying' while the server can't be reached
+  retryInMs?: number; // Set while retrying
+}
+
+export interface VideoPollOptions {
+  signal?: AbortSignal; // Stops polling; the job itself keeps running on the server
+  onProgress?: (progress: VideoProgress) => void;
+  startedAt?: number; // When the job started, for elapsed time and the timeout
+  timeoutMs?: number;
 }
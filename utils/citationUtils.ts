@@ -0,0 +1,61 @@
+// utils/citationUtils.ts
+import type { GroundingChunk, GroundingCitation } from '../types';
+
+// Citation markers are Markdown links whose title starts with this, so the renderer can tell them apart.
+export const CITATION_TITLE_PREFIX = 'citation:';
+
+export const groundingUri = (chunk: GroundingChunk): string | undefined => chunk.web?.uri ?? chunk.maps?.uri;
+
+/**
+ * Domain shown for a source. Search results point at a redirect URL and usually carry the
+ * site's domain as their title, so that is preferred when it looks like one.
+ */
+export function sourceDomain(chunk: GroundingChunk): string {
+  const title = chunk.web?.title ?? chunk.maps?.title ?? '';
+  if (/^[a-z0-9-]+(\.[a-z0-9-]+)+$/i.test(title)) return title.toLowerCase();
+  try {
+    return new URL(groundingUri(chunk) ?? '').hostname.replace(/^www\./, '');
+  } catch {
+    return '';
+  }
+}
+
+export const sourceTitle = (chunk: GroundingChunk): string =>
+  chunk.web?.title || chunk.maps?.title || sourceDomain(chunk) || 'Source';
+
+/** Converts a UTF-8 byte offset, as used by grounding segments, to a string index. */
+export function byteOffsetToIndex(text: string, byteOffset: number): number {
+  let bytes = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (bytes >= byteOffset) return i;
+    const code = text.codePointAt(i)!;
+    bytes += code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+    if (code > 0xffff) i++; // Surrogate pair
+  }
+  return text.length;
+}
+
+const escapeTitle = (title: string) => title.replace(/["\\]/g, '\\$&');
+
+/**
+ * Inserts `marker(source)` for every source of each citation, after the claim it backs.
+ * Citations that point past the end of the text are skipped.
+ */
+export function insertCitationMarkers(text: string, citations: GroundingCitation[], marker: (source: number) => string): string {
+  const sorted = [...citations].filter(c => c.index <= text.length).sort((a, b) => b.index - a.index);
+  let result = text;
+  for (const citation of sorted) {
+    const markers = citation.sources.map(marker).join('');
+    result = result.slice(0, citation.index) + markers + result.slice(citation.index);
+  }
+  return result;
+}
+
+/** Inserts numbered citation links (e.g. `[2]`), numbered by position in `chunks`. */
+export function insertCitations(text: string, citations: GroundingCitation[], chunks: GroundingChunk[]): string {
+  return insertCitationMarkers(text, citations, source => {
+    const chunk = chunks[source];
+    const uri = chunk && groundingUri(chunk);
+    return uri ? `[${source + 1}](<${uri}> "${CITATION_TITLE_PREFIX}${escapeTitle(sourceTitle(chunk))}")` : '';
+  });
+}
@@ -38,6 +38,77 @@ export const blobToBase64 = (blob: Blob): Promise<Base64File> => {
     });
 };
 
+export const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => {
+    const response = await fetch(dataUrl);
+    return response.blob();
+};
+
+// File extension for an image MIME type, e.g. "jpg" for image/jpeg; PNG when it can't be told.
+export const imageExtension = (mimeType: string) => mimeType.match(/^image\/(\w+)/)?.[1]?.replace('jpeg', 'jpg') ?? 'png';
+
+// Works for data: and blob: URLs alike, e.g. an edit result that is fed back in as the next input.
+export const urlToBase64 = async (url: string): Promise<Base64File> => {
+    const response = await fetch(url);
+    return blobToBase64(await response.blob());
+};
+
+// SHA-256 of the raw bytes, so identical content maps to the same key regardless of file name.
+export const hashBlob = async (blob: Blob): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+    return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const formatBytes = (bytes: number): string => {
+    if (bytes < 1024) return `${bytes} B`;
+    const units = ['KB', 'MB', 'GB'];
+    let value = bytes / 1024;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+        value /= 1024;
+        unit++;
+    }
+    return `${value.toFixed(1)} ${units[unit]}`;
+};
+
+// Reads every file from a drop, descending into dropped folders.
+export const getDroppedFiles = async (dataTransfer: DataTransfer): Promise<File[]> => {
+    const entries = Array.from(dataTransfer.items)
+        .map(item => item.webkitGetAsEntry?.())
+        .filter((entry): entry is FileSystemEntry => Boolean(entry));
+    if (entries.length === 0) {
+        return Array.from<File>(dataTransfer.files);
+    }
+
+    const readEntry = async (entry: FileSystemEntry): Promise<File[]> => {
+        if (entry.isFile) {
+            const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+            return [file];
+        }
+        const reader = (entry as FileSystemDirectoryEntry).createReader();
+        const children: FileSystemEntry[] = [];
+        // readEntries returns results in batches until it yields an empty one.
+        for (;;) {
+            const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+            if (batch.length === 0) break;
+            children.push(...batch);
+        }
+        const nested = await Promise.all(children.map(readEntry));
+        return nested.flat();
+    };
+
+    const files = await Promise.all(entries.map(readEntry));
+    return files.flat();
+};
+
+// Draws the video's current frame onto the canvas and returns it as a JPEG.
+const captureVideoFrame = (video: HTMLVideoElement, canvas: HTMLCanvasElement): Base64File | null => {
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext('2d')?.drawImage(video, 0, 0, video.videoWidth, video.videoHeight);
+    const base64 = canvas.toDataURL('image/jpeg').split(',')[1];
+    return base64 ? { base64, mimeType: 'image/jpeg' } : null;
+};
+
 export const getVideoFrames = (file: File, frameCount: number): Promise<Base64File[]> => {
     return new Promise((resolve, reject) => {
         const video = document.createElement('video');
@@ -51,7 +122,6 @@ export const getVideoFrames = (file: File, frameCount: number): Promise<Base64Fi
             let processedFrames = 0;
 
             const canvas = document.createElement('canvas');
-            const context = canvas.getContext('2d');
             
             const captureFrame = (time: number) => {
                 video.currentTime = time;
@@ -59,13 +129,9 @@ export const getVideoFrames = (file: File, frameCount: number): Promise<Base64Fi
             
             video.onseeked = () => {
                 if (processedFrames < frameCount) {
-                    canvas.width = video.videoWidth;
-                    canvas.height = video.videoHeight;
-                    context?.drawImage(video, 0, 0, video.videoWidth, video.videoHeight);
-                    const dataUrl = canvas.toDataURL('image/jpeg');
-                    const base64 = dataUrl.split(',')[1];
-                    if (base64) {
-                        frames.push({ base64, mimeType: 'image/jpeg' });
+                    const frame = captureVideoFrame(video, canvas);
+                    if (frame) {
+                        frames.push(frame);
                     }
                     processedFrames++;
                     if (processedFrames < frameCount) {
@@ -86,6 +152,40 @@ export const getVideoFrames = (file: File, frameCount: number): Promise<Base64Fi
     });
 };
 
+// Seeking to the exact end can land past the last decodable frame, so capture stops just short of it.
+const LAST_FRAME_OFFSET_SECONDS = 0.05;
+
+// Captures one frame of the video at `src` (e.g. an object URL); `pickTime` chooses when from its duration.
+const captureVideoFrameAt = (src: string, pickTime: (duration: number) => number): Promise<Base64File> => {
+    return new Promise((resolve, reject) => {
+        const video = document.createElement('video');
+        video.preload = 'auto';
+        video.muted = true;
+        video.src = src;
+
+        video.onloadedmetadata = () => {
+            video.currentTime = pickTime(video.duration);
+        };
+        video.onseeked = () => {
+            const frame = captureVideoFrame(video, document.createElement('canvas'));
+            if (frame) {
+                resolve(frame);
+            } else {
+                reject(new Error("Failed to capture a frame of the video."));
+            }
+        };
+        video.onerror = () => reject(new Error("Failed to load the video to capture a frame."));
+    });
+};
+
+/** Captures the final frame of a video, to start the next shot from. */
+export const getLastVideoFrame = (src: string): Promise<Base64File> =>
+    captureVideoFrameAt(src, duration => Math.max(0, duration - LAST_FRAME_OFFSET_SECONDS));
+
+/** Captures the middle frame of a video, as its poster. */
+export const getVideoPoster = (src: string): Promise<Base64File> =>
+    captureVideoFrameAt(src, duration => duration / 2);
+
 // --- AUDIO UTILS FOR LIVE API ---
 export function decode(base64: string) {
   const binaryString = atob(base64);
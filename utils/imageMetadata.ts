@@ -0,0 +1,165 @@
+// utils/imageMetadata.ts
+// Embeds provenance (prompt, style, model) into encoded image files so it travels with the image.
+// PNG gets iTXt chunks; JPEG and WebP get an XMP packet. AVIF is not supported.
+import { crc32 } from './zipUtils';
+
+export interface ExportMetadata {
+  prompt: string;
+  style?: string | null;
+  model: string;
+}
+
+const SOFTWARE_NAME = 'Gemini AI Studio';
+
+const encoder = new TextEncoder();
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function buildXmpPacket(metadata: ExportMetadata): string {
+  const subject = metadata.style
+    ? `<dc:subject><rdf:Bag><rdf:li>${escapeXml(metadata.style)}</rdf:li></rdf:Bag></dc:subject>`
+    : '';
+  return [
+    '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    '<rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:xmp="http://ns.adobe.com/xap/1.0/">',
+    `<dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(metadata.prompt)}</rdf:li></rdf:Alt></dc:description>`,
+    subject,
+    `<xmp:CreatorTool>${escapeXml(`${SOFTWARE_NAME} (${metadata.model})`)}</xmp:CreatorTool>`,
+    '</rdf:Description>',
+    '</rdf:RDF>',
+    '</x:xmpmeta>',
+    '<?xpacket end="w"?>',
+  ].join('');
+}
+
+// --- PNG ---
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const typeBytes = encoder.encode(type);
+  const header = new DataView(new ArrayBuffer(4));
+  header.setUint32(0, data.length);
+  const crc = new DataView(new ArrayBuffer(4));
+  crc.setUint32(0, crc32(concat([typeBytes, data])));
+  return concat([new Uint8Array(header.buffer), typeBytes, data, new Uint8Array(crc.buffer)]);
+}
+
+// Uncompressed international text chunk: keyword, flags, empty language and translated keyword, UTF-8 text.
+function pngTextChunk(keyword: string, text: string): Uint8Array {
+  return pngChunk('iTXt', concat([encoder.encode(keyword), new Uint8Array([0, 0, 0, 0, 0]), encoder.encode(text)]));
+}
+
+function embedInPng(bytes: Uint8Array, metadata: ExportMetadata): Uint8Array {
+  // IEND is always the final 12 bytes; text chunks go right before it.
+  const iendOffset = bytes.length - 12;
+  const chunks = [
+    pngTextChunk('Description', metadata.prompt),
+    ...(metadata.style ? [pngTextChunk('Style', metadata.style)] : []),
+    pngTextChunk('Software', `${SOFTWARE_NAME} (${metadata.model})`),
+    pngTextChunk('XML:com.adobe.xmp', buildXmpPacket(metadata)),
+  ];
+  return concat([bytes.subarray(0, iendOffset), ...chunks, bytes.subarray(iendOffset)]);
+}
+
+// --- JPEG ---
+
+const XMP_NAMESPACE = 'http://ns.adobe.com/xap/1.0/\0';
+
+function embedInJpeg(bytes: Uint8Array, metadata: ExportMetadata): Uint8Array {
+  const payload = concat([encoder.encode(XMP_NAMESPACE), encoder.encode(buildXmpPacket(metadata))]);
+  if (payload.length + 2 > 0xffff) {
+    throw new Error("Metadata is too large to embed in a JPEG.");
+  }
+  const segment = new Uint8Array(4 + payload.length);
+  segment.set([0xff, 0xe1, (payload.length + 2) >> 8, (payload.length + 2) & 0xff]);
+  segment.set(payload, 4);
+
+  // Keep a leading JFIF APP0 segment first, as readers expect; otherwise insert right after SOI.
+  let insertAt = 2;
+  if (bytes[2] === 0xff && bytes[3] === 0xe0) {
+    insertAt = 4 + ((bytes[4] << 8) | bytes[5]);
+  }
+  return concat([bytes.subarray(0, insertAt), segment, bytes.subarray(insertAt)]);
+}
+
+// --- WebP ---
+
+function riffChunk(fourCC: string, data: Uint8Array): Uint8Array {
+  const header = new DataView(new ArrayBuffer(8));
+  encoder.encode(fourCC).forEach((byte, i) => header.setUint8(i, byte));
+  header.setUint32(4, data.length, true);
+  // Chunks are padded to an even length.
+  return concat([new Uint8Array(header.buffer), data, data.length % 2 ? new Uint8Array(1) : new Uint8Array(0)]);
+}
+
+function embedInWebp(bytes: Uint8Array, metadata: ExportMetadata, width: number, height: number): Uint8Array {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const firstChunk = String.fromCharCode(...bytes.subarray(12, 16));
+  let body = bytes.subarray(12);
+
+  if (firstChunk === 'VP8X') {
+    body = new Uint8Array(body);
+    body[8] |= 0x04; // XMP flag
+  } else {
+    // Simple WebP files must be upgraded to the extended format before they can carry XMP.
+    let flags = 0x04;
+    if (firstChunk === 'VP8L' && (view.getUint32(21, true) >> 28) & 1) {
+      flags |= 0x10; // Alpha flag, from the lossless header's alpha_is_used bit
+    }
+    const vp8x = new Uint8Array(10);
+    vp8x[0] = flags;
+    vp8x.set([(width - 1) & 0xff, ((width - 1) >> 8) & 0xff, ((width - 1) >> 16) & 0xff], 4);
+    vp8x.set([(height - 1) & 0xff, ((height - 1) >> 8) & 0xff, ((height - 1) >> 16) & 0xff], 7);
+    body = concat([riffChunk('VP8X', vp8x), body]);
+  }
+
+  const withXmp = concat([encoder.encode('WEBP'), body, riffChunk('XMP ', encoder.encode(buildXmpPacket(metadata)))]);
+  const header = new DataView(new ArrayBuffer(8));
+  encoder.encode('RIFF').forEach((byte, i) => header.setUint8(i, byte));
+  header.setUint32(4, withXmp.length, true);
+  return concat([new Uint8Array(header.buffer), withXmp]);
+}
+
+export function supportsMetadata(mimeType: string): boolean {
+  return mimeType === 'image/png' || mimeType === 'image/jpeg' || mimeType === 'image/webp';
+}
+
+/**
+ * Returns a copy of `blob` with the metadata embedded. `width` and `height` are needed
+ * to upgrade simple WebP files to the extended format.
+ */
+export async function embedMetadata(blob: Blob, metadata: ExportMetadata, width: number, height: number): Promise<Blob> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let result: Uint8Array;
+  switch (blob.type) {
+    case 'image/png':
+      result = embedInPng(bytes, metadata);
+      break;
+    case 'image/jpeg':
+      result = embedInJpeg(bytes, metadata);
+      break;
+    case 'image/webp':
+      result = embedInWebp(bytes, metadata, width, height);
+      break;
+    default:
+      return blob;
+  }
+  return new Blob([result], { type: blob.type });
+}
@@ -0,0 +1,165 @@
+// utils/imageUtils.ts
+// Canvas helpers for working with edit results in the browser.
+import type { CanvasPadding } from '../types';
+
+export const loadImage = (url: string): Promise<HTMLImageElement> => {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error("Failed to load image."));
+        img.src = url;
+    });
+};
+
+const createCanvas = (width: number, height: number): { canvas: HTMLCanvasElement; ctx: CanvasRenderingContext2D } => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error("Could not get canvas context.");
+    }
+    return { canvas, ctx };
+};
+
+/**
+ * Keeps the result only where the mask is white and the source everywhere else,
+ * so pixels outside the mask are identical to the source. The result is scaled to
+ * the source size, since the model may answer at a different resolution.
+ */
+export const compositeWithMask = async (sourceUrl: string, resultUrl: string, maskUrl: string): Promise<string> => {
+    const [source, result, mask] = await Promise.all([loadImage(sourceUrl), loadImage(resultUrl), loadImage(maskUrl)]);
+    const width = source.naturalWidth;
+    const height = source.naturalHeight;
+
+    // Turn the black/white mask into an alpha channel.
+    const { canvas: alphaCanvas, ctx: alphaCtx } = createCanvas(width, height);
+    alphaCtx.drawImage(mask, 0, 0, width, height);
+    const maskData = alphaCtx.getImageData(0, 0, width, height);
+    for (let i = 0; i < maskData.data.length; i += 4) {
+        maskData.data[i + 3] = maskData.data[i];
+    }
+    alphaCtx.putImageData(maskData, 0, 0);
+
+    const { canvas: patchCanvas, ctx: patchCtx } = createCanvas(width, height);
+    patchCtx.drawImage(result, 0, 0, width, height);
+    patchCtx.globalCompositeOperation = 'destination-in';
+    patchCtx.drawImage(alphaCanvas, 0, 0);
+
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.drawImage(source, 0, 0);
+    ctx.drawImage(patchCanvas, 0, 0);
+    return canvas.toDataURL('image/png');
+};
+
+/**
+ * Per-pixel absolute difference of two images at the size of the first one.
+ * Differences are multiplied by `gain` so subtle edits stay visible.
+ */
+export const createDifferenceImage = async (beforeUrl: string, afterUrl: string, gain = 4): Promise<string> => {
+    const [before, after] = await Promise.all([loadImage(beforeUrl), loadImage(afterUrl)]);
+    const width = before.naturalWidth;
+    const height = before.naturalHeight;
+
+    const { ctx: beforeCtx } = createCanvas(width, height);
+    beforeCtx.drawImage(before, 0, 0);
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.drawImage(after, 0, 0, width, height);
+
+    const a = beforeCtx.getImageData(0, 0, width, height);
+    const b = ctx.getImageData(0, 0, width, height);
+    for (let i = 0; i < b.data.length; i += 4) {
+        b.data[i] = Math.min(255, Math.abs(b.data[i] - a.data[i]) * gain);
+        b.data[i + 1] = Math.min(255, Math.abs(b.data[i + 1] - a.data[i + 1]) * gain);
+        b.data[i + 2] = Math.min(255, Math.abs(b.data[i + 2] - a.data[i + 2]) * gain);
+        b.data[i + 3] = 255;
+    }
+    ctx.putImageData(b, 0, 0);
+    return canvas.toDataURL('image/png');
+};
+
+// Downscaled JPEG copy of an image, small enough to keep in localStorage.
+export const createThumbnail = async (url: string, size = 160): Promise<string> => {
+    const img = await loadImage(url);
+    const scale = Math.min(1, size / Math.max(img.naturalWidth, img.naturalHeight));
+    const { canvas, ctx } = createCanvas(Math.round(img.naturalWidth * scale), Math.round(img.naturalHeight * scale));
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/jpeg', 0.8);
+};
+
+export interface ExportOptions {
+    mimeType: string;
+    quality: number;           // 0–1, ignored by lossless formats
+    width: number | null;      // Target width in pixels; null keeps the original size
+    background: string | null; // CSS color painted behind the image; null keeps transparency
+}
+
+const canvasToBlob = (canvas: HTMLCanvasElement, mimeType: string, quality?: number): Promise<Blob | null> =>
+    new Promise(resolve => canvas.toBlob(resolve, mimeType, quality));
+
+// Browsers silently fall back to PNG for formats they cannot encode, so check what comes out.
+export const canEncode = async (mimeType: string): Promise<boolean> => {
+    const { canvas } = createCanvas(1, 1);
+    const blob = await canvasToBlob(canvas, mimeType);
+    return blob?.type === mimeType;
+};
+
+export const renderForExport = async (url: string, options: ExportOptions): Promise<{ blob: Blob; width: number; height: number }> => {
+    const img = await loadImage(url);
+    const width = options.width ?? img.naturalWidth;
+    const height = Math.round(img.naturalHeight * (width / img.naturalWidth));
+    const { canvas, ctx } = createCanvas(width, height);
+    if (options.background) {
+        ctx.fillStyle = options.background;
+        ctx.fillRect(0, 0, width, height);
+    }
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(img, 0, 0, width, height);
+    const blob = await canvasToBlob(canvas, options.mimeType, options.quality);
+    if (!blob || blob.type !== options.mimeType) {
+        throw new Error(`This browser cannot export ${options.mimeType} images.`);
+    }
+    return { blob, width, height };
+};
+
+/**
+ * Padding that brings a `width`×`height` image to `ratio` (width / height) by growing one axis.
+ * `align` places the original along the grown axis: 0 = left/top, 0.5 = centered, 1 = right/bottom.
+ */
+export const paddingForAspectRatio = (width: number, height: number, ratio: number, align = 0.5): CanvasPadding => {
+    const current = width / height;
+    if (ratio > current) {
+        const extra = Math.round(height * ratio) - width;
+        const left = Math.round(extra * align);
+        return { top: 0, right: extra - left, bottom: 0, left };
+    }
+    const extra = Math.round(width / ratio) - height;
+    const top = Math.round(extra * align);
+    return { top, right: 0, bottom: extra - top, left: 0 };
+};
+
+// Flat neutral fill for the added area, so the model reads it as empty without a colour bias.
+const EXPANSION_FILL = '#808080';
+
+/**
+ * Places the image inside a larger canvas and returns it with a mask that is white over
+ * the added area, ready for a masked edit that fills it in.
+ */
+export const expandCanvas = async (url: string, padding: CanvasPadding): Promise<{ imageUrl: string; maskUrl: string; width: number; height: number }> => {
+    const img = await loadImage(url);
+    const width = img.naturalWidth + padding.left + padding.right;
+    const height = img.naturalHeight + padding.top + padding.bottom;
+
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.fillStyle = EXPANSION_FILL;
+    ctx.fillRect(0, 0, width, height);
+    ctx.drawImage(img, padding.left, padding.top);
+
+    const { canvas: maskCanvas, ctx: maskCtx } = createCanvas(width, height);
+    maskCtx.fillStyle = 'white';
+    maskCtx.fillRect(0, 0, width, height);
+    maskCtx.fillStyle = 'black';
+    maskCtx.fillRect(padding.left, padding.top, img.naturalWidth, img.naturalHeight);
+
+    return { imageUrl: canvas.toDataURL('image/png'), maskUrl: maskCanvas.toDataURL('image/png'), width, height };
+};